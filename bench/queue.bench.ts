@@ -0,0 +1,115 @@
+/**
+ * @file queue.bench.ts
+ * @description Queue benchmarks with large backlogs (run with `npm run bench`).
+ *
+ * Notes
+ * - Every case holds the only slot with a gate task, fills the queue with PENDING tasks,
+ *   then measures how the backlog is drained or cancelled.
+ * - Rejections are caught up front so cancelled tasks never surface as unhandled.
+ */
+
+import { bench, describe } from 'vitest';
+import { Limiter } from '../src';
+
+const PENDING = 100_000;
+const options = { iterations: 5, warmupIterations: 1 };
+
+function noop() {}
+
+function hold(limiter: Limiter) {
+  let open!: () => void;
+  const released = new Promise<void>((r) => (open = r));
+  const gate = limiter.run(() => released);
+  return { gate, open };
+}
+
+describe(`${PENDING} pending tasks`, () => {
+  bench(
+    'enqueue + drain in FIFO order',
+    async () => {
+      const limiter = new Limiter(1);
+      const { gate, open } = hold(limiter);
+
+      const tasks: Promise<unknown>[] = [];
+      for (let i = 0; i < PENDING; i++) tasks.push(limiter.run(noop));
+
+      open();
+      await Promise.all([gate, ...tasks]);
+    },
+    options
+  );
+
+  bench(
+    'enqueue + drain with mixed priorities',
+    async () => {
+      const limiter = new Limiter(1);
+      const { gate, open } = hold(limiter);
+
+      const tasks: Promise<unknown>[] = [];
+      for (let i = 0; i < PENDING; i++) tasks.push(limiter.run(noop, { priority: i % 8 }));
+
+      open();
+      await Promise.all([gate, ...tasks]);
+    },
+    options
+  );
+
+  bench(
+    'mass cancellation via one shared signal',
+    async () => {
+      const limiter = new Limiter(1);
+      const { gate, open } = hold(limiter);
+      const ac = new AbortController();
+
+      const tasks: Promise<unknown>[] = [];
+      for (let i = 0; i < PENDING; i++) {
+        tasks.push(limiter.run(noop, { signal: ac.signal }).catch(noop));
+      }
+
+      ac.abort();
+      await Promise.all(tasks);
+
+      open();
+      await gate;
+    },
+    options
+  );
+
+  bench(
+    'cancel every other task from the middle of the queue',
+    async () => {
+      const limiter = new Limiter(1);
+      const { gate, open } = hold(limiter);
+
+      const controllers: AbortController[] = [];
+      const tasks: Promise<unknown>[] = [];
+      for (let i = 0; i < PENDING; i++) {
+        const ac = new AbortController();
+        controllers.push(ac);
+        tasks.push(limiter.run(noop, { signal: ac.signal }).catch(noop));
+      }
+
+      for (let i = 1; i < PENDING; i += 2) controllers[i].abort();
+
+      open();
+      await Promise.all([gate, ...tasks]);
+    },
+    options
+  );
+
+  bench(
+    'close({ mode: "reject" })',
+    async () => {
+      const limiter = new Limiter(1);
+      const { gate, open } = hold(limiter);
+
+      const tasks: Promise<unknown>[] = [];
+      for (let i = 0; i < PENDING; i++) tasks.push(limiter.run(noop).catch(noop));
+
+      const closed = limiter.close({ mode: 'reject' });
+      open();
+      await Promise.all([gate, closed, ...tasks]);
+    },
+    options
+  );
+});
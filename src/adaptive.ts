@@ -0,0 +1,94 @@
+/**
+ * @file adaptive.ts
+ * @description AIMD limit controller driven by settle events (internal)
+ */
+
+import type { AdaptiveOptions, AdaptiveReason, Clock, LimiterEvents } from './types';
+import type { Emitter } from './events';
+import type { Limiter } from './limiter';
+import { AbortError, LimiterClosedError } from './errors';
+
+/**
+ * Default `isOverload`: every task error except cancellations (by the caller, or by the limiter
+ * itself: stream early exit, `map()` stopOnError, `runAll()` siblings, close), which say nothing
+ * about the downstream load.
+ */
+function isOverloadByDefault(error: unknown) {
+  return !(error instanceof AbortError || error instanceof LimiterClosedError);
+}
+
+/**
+ * - Overload (an error accepted by `isOverload`, or a run slower than `latencyThresholdMs`)
+ *   multiplies the limit by `decrease`. Runs that started before the last decrease are ignored,
+ *   so a burst of failures from one window shrinks the limit only once.
+ * - Every `limit` successful runs while the limiter is saturated (queued tasks, or all units in use)
+ *   add `increase` to the limit. An idle limiter does not grow.
+ */
+export class AdaptiveController {
+  private readonly minLimit: number;
+  private readonly maxLimit: number;
+  private readonly increase: number;
+  private readonly decrease: number;
+  private readonly latencyThresholdMs?: number;
+  private readonly isOverload: (error: unknown) => boolean;
+
+  private successes = 0;
+  private lastDecreaseAt = Number.NEGATIVE_INFINITY;
+
+  constructor(
+    private readonly limiter: Limiter,
+    private readonly events: Emitter<LimiterEvents>,
+    options: AdaptiveOptions,
+    private readonly clock: Clock
+  ) {
+    this.minLimit = options.minLimit ?? 1;
+    this.maxLimit = options.maxLimit;
+    this.increase = options.increase ?? 1;
+    this.decrease = options.decrease ?? 0.5;
+    this.latencyThresholdMs = options.latencyThresholdMs;
+    this.isOverload = options.isOverload ?? isOverloadByDefault;
+
+    events.on('settle', (e) => {
+      if (e.status === 'rejected') {
+        if (this.isOverload(e.error)) this.onOverload('overload', e.runMs);
+        return;
+      }
+
+      if (this.latencyThresholdMs != null && e.runMs > this.latencyThresholdMs) {
+        this.onOverload('latency', e.runMs);
+        return;
+      }
+
+      this.onSuccess();
+    });
+  }
+
+  private onOverload(reason: AdaptiveReason, runMs: number) {
+    this.successes = 0;
+
+    const t = this.clock.now();
+    if (t - runMs < this.lastDecreaseAt) return;
+    this.lastDecreaseAt = t;
+
+    this.adjust(Math.max(this.minLimit, Math.floor(this.limiter.limit * this.decrease)), reason);
+  }
+
+  private onSuccess() {
+    // Settle is emitted before the slot is released, so the settling task still counts as in use.
+    const { limiter } = this;
+    if (limiter.pendingCount === 0 && limiter.activeWeight < limiter.limit) return;
+
+    if (++this.successes < limiter.limit) return;
+    this.successes = 0;
+
+    this.adjust(Math.min(this.maxLimit, limiter.limit + this.increase), 'increase');
+  }
+
+  private adjust(limit: number, reason: AdaptiveReason) {
+    const previous = this.limiter.limit;
+    if (limit === previous) return;
+
+    this.limiter.setLimit(limit);
+    this.events.emit('adjust', { limit, previous, reason });
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * @file assert.ts
+ * @description Option validation helpers (internal)
+ */
+
+import type {
+  AdaptiveOptions,
+  Clock,
+  LimiterOptions,
+  OverflowStrategy,
+  QueueMode,
+  RetryOptions,
+} from './types';
+import { systemClock } from './clock';
+
+export function assertValidLimit(limit: number) {
+  if (!Number.isFinite(limit) || limit <= 0) {
+    throw new RangeError(`Limiter limit must be a positive finite number. Received: ${limit}`);
+  }
+}
+
+export function assertValidMaxQueue(maxQueue: number, name = 'maxQueue') {
+  if ((maxQueue !== Number.POSITIVE_INFINITY && !Number.isFinite(maxQueue)) || maxQueue < 0) {
+    throw new RangeError(
+      `Limiter ${name} must be a number >= 0 (or Infinity). Received: ${maxQueue}`
+    );
+  }
+}
+
+export function assertValidGroupShares(shares: Record<string, number>) {
+  for (const [group, share] of Object.entries(shares)) {
+    if (!Number.isFinite(share) || share <= 0) {
+      throw new RangeError(
+        `groupShares['${group}'] must be a positive finite number. Received: ${share}`
+      );
+    }
+  }
+}
+
+export function assertValidGroup(group: string | undefined) {
+  if (group !== undefined && typeof group !== 'string') {
+    throw new RangeError(`group must be a string (or undefined). Received: ${String(group)}`);
+  }
+}
+
+export function assertValidPendingThreshold(n: number) {
+  if (Number.isNaN(n) || n < 1) {
+    throw new RangeError(`Pending threshold must be a number >= 1. Received: ${n}`);
+  }
+}
+
+export function assertValidTimeoutMs(name: string, ms: number | undefined) {
+  if (ms == null) return;
+  if (!Number.isFinite(ms) || ms < 0) {
+    throw new RangeError(`${name} must be a finite number >= 0 (or undefined). Received: ${ms}`);
+  }
+}
+
+export function assertValidPriority(priority: number) {
+  if (!Number.isFinite(priority)) {
+    throw new RangeError(`priority must be a finite number. Received: ${priority}`);
+  }
+}
+
+export function assertValidDeadline(deadline: number | undefined) {
+  if (deadline == null) return;
+  if (!Number.isFinite(deadline)) {
+    throw new RangeError(
+      `deadline must be a finite timestamp (or undefined). Received: ${deadline}`
+    );
+  }
+}
+
+export function assertValidQueueMode(mode: QueueMode) {
+  if (mode !== 'priority' && mode !== 'edf') {
+    throw new RangeError(`queueMode must be 'priority' or 'edf'. Received: ${String(mode)}`);
+  }
+}
+
+export function assertValidClock(clock: Clock) {
+  if (
+    typeof clock?.now !== 'function' ||
+    typeof clock.setTimeout !== 'function' ||
+    typeof clock.clearTimeout !== 'function'
+  ) {
+    throw new RangeError('clock must provide now(), setTimeout() and clearTimeout()');
+  }
+}
+
+export function assertValidAgingMs(ms: number) {
+  if (Number.isNaN(ms) || ms <= 0) {
+    throw new RangeError(
+      `Limiter priorityAgingMs must be a number > 0 (or Infinity). Received: ${ms}`
+    );
+  }
+}
+
+export function assertValidInterval(intervalCap: number, intervalMs: number | undefined) {
+  if (
+    intervalCap !== Number.POSITIVE_INFINITY &&
+    (!Number.isInteger(intervalCap) || intervalCap < 1)
+  ) {
+    throw new RangeError(
+      `Limiter intervalCap must be an integer >= 1 (or Infinity). Received: ${intervalCap}`
+    );
+  }
+  if (intervalCap === Number.POSITIVE_INFINITY) return;
+  if (intervalMs == null || !Number.isFinite(intervalMs) || intervalMs <= 0) {
+    throw new RangeError(
+      `Limiter intervalMs must be a positive finite number when intervalCap is set. Received: ${intervalMs}`
+    );
+  }
+}
+
+export function assertValidWeight(weight: number, limit: number) {
+  if (!Number.isFinite(weight) || weight <= 0) {
+    throw new RangeError(`weight must be a positive finite number. Received: ${weight}`);
+  }
+  if (weight > limit) {
+    throw new RangeError(`weight (${weight}) exceeds the limiter limit (${limit})`);
+  }
+}
+
+export function assertValidRetry(retry: RetryOptions | undefined) {
+  if (retry == null) return;
+
+  const { attempts = 3, minDelayMs = 100, maxDelayMs = 30_000, factor = 2, maxTotalMs } = retry;
+
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new RangeError(`retry.attempts must be an integer >= 1. Received: ${attempts}`);
+  }
+  assertValidTimeoutMs('retry.minDelayMs', minDelayMs);
+  assertValidTimeoutMs('retry.maxDelayMs', maxDelayMs);
+  assertValidTimeoutMs('retry.maxTotalMs', maxTotalMs);
+  if (!Number.isFinite(factor) || factor < 1) {
+    throw new RangeError(`retry.factor must be a finite number >= 1. Received: ${factor}`);
+  }
+}
+
+export function assertValidAdaptive(adaptive: AdaptiveOptions | undefined, limit: number) {
+  if (adaptive == null) return;
+
+  const { minLimit = 1, maxLimit, increase = 1, decrease = 0.5, latencyThresholdMs } = adaptive;
+
+  assertValidLimit(minLimit);
+  assertValidLimit(maxLimit);
+  if (minLimit > maxLimit) {
+    throw new RangeError(`adaptive.minLimit (${minLimit}) exceeds adaptive.maxLimit (${maxLimit})`);
+  }
+  if (limit < minLimit || limit > maxLimit) {
+    throw new RangeError(`Limiter limit (${limit}) must be within [${minLimit}, ${maxLimit}]`);
+  }
+  if (!Number.isFinite(increase) || increase <= 0) {
+    throw new RangeError(`adaptive.increase must be a positive finite number. Received: ${increase}`);
+  }
+  if (!(decrease > 0 && decrease < 1)) {
+    throw new RangeError(`adaptive.decrease must be a number in (0, 1). Received: ${decrease}`);
+  }
+  assertValidTimeoutMs('adaptive.latencyThresholdMs', latencyThresholdMs);
+}
+
+export function assertValidOverflowStrategy(strategy: OverflowStrategy) {
+  if (typeof strategy === 'function') return;
+  if (strategy === 'reject-new' || strategy === 'drop-oldest' || strategy === 'drop-lowest-priority') {
+    return;
+  }
+  throw new RangeError(
+    `overflowStrategy must be 'reject-new', 'drop-oldest', 'drop-lowest-priority' or a function. Received: ${String(strategy)}`
+  );
+}
+
+/**
+ * Validate the options of a Limiter with limit `limit` (omitted options take their defaults).
+ * Also used by KeyedLimiter, which creates its per-key limiters on first use.
+ */
+export function assertValidLimiterOptions(limit: number, options: LimiterOptions) {
+  const {
+    maxQueue = Number.POSITIVE_INFINITY,
+    queueTimeoutMs = undefined,
+    runTimeoutMs = undefined,
+    priorityAgingMs = Number.POSITIVE_INFINITY,
+    intervalCap = Number.POSITIVE_INFINITY,
+    intervalMs = undefined,
+    retry = undefined,
+    adaptive = undefined,
+    overflowStrategy = 'reject-new',
+    queueMode = 'priority',
+    groupShares = {},
+    groupMaxQueue = Number.POSITIVE_INFINITY,
+    clock = systemClock,
+  } = options;
+
+  assertValidLimit(limit);
+  assertValidMaxQueue(maxQueue);
+  assertValidMaxQueue(groupMaxQueue, 'groupMaxQueue');
+  assertValidGroupShares(groupShares);
+  assertValidTimeoutMs('queueTimeoutMs', queueTimeoutMs);
+  assertValidTimeoutMs('runTimeoutMs', runTimeoutMs);
+  assertValidAgingMs(priorityAgingMs);
+  assertValidInterval(intervalCap, intervalMs);
+  assertValidRetry(retry);
+  assertValidAdaptive(adaptive, limit);
+  assertValidOverflowStrategy(overflowStrategy);
+  assertValidQueueMode(queueMode);
+  assertValidClock(clock);
+}
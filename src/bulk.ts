@@ -0,0 +1,343 @@
+/**
+ * @file bulk.ts
+ * @description Lazy bulk mapping over (async) iterables through a limiter (internal)
+ */
+
+import type { BulkOptions, MapInput, MapOptions, Mapper, StreamOptions } from './types';
+import type { Limiter } from './limiter';
+import { AbortError } from './errors';
+import { assertValidPriority, assertValidTimeoutMs } from './assert';
+import { addAbortHandler } from './waiters';
+
+type PumpHooks<R> = {
+  /** Whether another item may be pulled while `inFlight` items are unsettled. */
+  hasRoom: (inFlight: number) => boolean;
+  settle: (index: number, result: PromiseSettledResult<R>) => void;
+  /** The input iterator threw. */
+  fail: (err: unknown) => void;
+  /** Input exhausted and every item settled. */
+  end: () => void;
+};
+
+/**
+ * Pulls input items one at a time and runs each through the limiter, as long as
+ * `hooks.hasRoom()` allows. Nothing is pulled ahead of free room (backpressure).
+ */
+export class Pump<T, R> {
+  private readonly iterator: Iterator<T> | AsyncIterator<T>;
+  private readonly runOptions: Omit<BulkOptions, 'signal'>;
+  private readonly controller = new AbortController();
+  private readonly unlink: (() => void) | null;
+
+  private index = 0;
+  private inFlight = 0;
+  private pulling = false;
+  private exhausted = false;
+  private stopped = false;
+
+  constructor(
+    private readonly limiter: Limiter,
+    input: MapInput<T>,
+    private readonly mapper: Mapper<T, R>,
+    options: BulkOptions,
+    private readonly hooks: PumpHooks<R>
+  ) {
+    const { signal, ...runOptions } = options;
+    this.runOptions = runOptions;
+
+    this.iterator =
+      Symbol.asyncIterator in input
+        ? input[Symbol.asyncIterator]()
+        : (input as Iterable<T>)[Symbol.iterator]();
+
+    this.unlink = addAbortHandler(signal, () =>
+      this.stop(new AbortError('Bulk call aborted'))
+    );
+  }
+
+  /**
+   * Aborted (with the stop reason) once the pump is stopped early.
+   */
+  get signal() {
+    return this.controller.signal;
+  }
+
+  /**
+   * Number of items pulled so far.
+   */
+  get count() {
+    return this.index;
+  }
+
+  /**
+   * Pull while there is room. Safe to call at any time (re-entrant calls are no-ops).
+   */
+  async fill(): Promise<void> {
+    if (this.pulling || this.stopped) return;
+    this.pulling = true;
+
+    try {
+      while (!this.stopped && !this.exhausted && this.hooks.hasRoom(this.inFlight)) {
+        const next = await this.iterator.next();
+        if (this.stopped) return;
+        if (next.done) {
+          this.exhausted = true;
+          break;
+        }
+        this.launch(next.value);
+      }
+    } catch (err) {
+      this.exhausted = true;
+      this.stop(err);
+      this.hooks.fail(err);
+      return;
+    } finally {
+      this.pulling = false;
+    }
+
+    if (this.exhausted && this.inFlight === 0) this.finish();
+  }
+
+  /**
+   * Stop pulling, close the input iterator and abort every queued / running item.
+   */
+  stop(reason: unknown) {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.unlink?.();
+
+    if (!this.exhausted) {
+      this.exhausted = true;
+      Promise.resolve()
+        .then(() => this.iterator.return?.())
+        .catch(() => {});
+    }
+
+    this.controller.abort(reason);
+  }
+
+  private launch(item: T) {
+    const index = this.index++;
+    this.inFlight++;
+
+    this.limiter
+      .run((signal) => this.mapper(item, index, signal), {
+        ...this.runOptions,
+        signal: this.controller.signal,
+      })
+      .then(
+        (value) => this.settled(index, { status: 'fulfilled', value }),
+        (reason) => this.settled(index, { status: 'rejected', reason })
+      );
+  }
+
+  private settled(index: number, result: PromiseSettledResult<R>) {
+    this.inFlight--;
+    if (this.stopped) return;
+
+    this.hooks.settle(index, result);
+    void this.fill();
+  }
+
+  private finish() {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.unlink?.();
+    this.hooks.end();
+  }
+}
+
+function assertValidBulkOptions(options: BulkOptions) {
+  assertValidTimeoutMs('queueTimeoutMs', options.queueTimeoutMs);
+  assertValidTimeoutMs('runTimeoutMs', options.runTimeoutMs);
+  assertValidPriority(options.priority ?? 0);
+}
+
+/**
+ * Map every input item through the limiter; resolves with all outcomes in input order.
+ * Rejects only if the input iterator throws or `signal` aborts.
+ */
+export function bulkMapSettled<T, R>(
+  limiter: Limiter,
+  input: MapInput<T>,
+  mapper: Mapper<T, R>,
+  options: BulkOptions = {}
+): Promise<PromiseSettledResult<R>[]> {
+  return new Promise((resolve, reject) => {
+    assertValidBulkOptions(options);
+    if (options.signal?.aborted) {
+      reject(new AbortError('Bulk call aborted'));
+      return;
+    }
+
+    const results: PromiseSettledResult<R>[] = [];
+
+    const pump: Pump<T, R> = new Pump(limiter, input, mapper, options, {
+      hasRoom: (inFlight) => inFlight < limiter.limit,
+      settle: (index, result) => {
+        results[index] = result;
+      },
+      fail: reject,
+      end: () => resolve(results),
+    });
+
+    pump.signal.addEventListener('abort', () => reject(pump.signal.reason), { once: true });
+    void pump.fill();
+  });
+}
+
+/**
+ * Map every input item through the limiter; resolves with the values in input order.
+ * See `MapOptions.stopOnError` for how task errors are reported.
+ */
+export function bulkMap<T, R>(
+  limiter: Limiter,
+  input: MapInput<T>,
+  mapper: Mapper<T, R>,
+  options: MapOptions = {}
+): Promise<R[]> {
+  const { stopOnError = true, ...bulkOptions } = options;
+
+  return new Promise((resolve, reject) => {
+    assertValidBulkOptions(bulkOptions);
+    if (bulkOptions.signal?.aborted) {
+      reject(new AbortError('Bulk call aborted'));
+      return;
+    }
+
+    const values: R[] = [];
+    const errors: { index: number; error: unknown }[] = [];
+
+    const pump: Pump<T, R> = new Pump(limiter, input, mapper, bulkOptions, {
+      hasRoom: (inFlight) => inFlight < limiter.limit,
+      settle: (index, result) => {
+        if (result.status === 'fulfilled') {
+          values[index] = result.value;
+        } else if (stopOnError) {
+          pump.stop(result.reason);
+        } else {
+          errors.push({ index, error: result.reason });
+        }
+      },
+      fail: reject,
+      end: () => {
+        if (errors.length === 0) {
+          resolve(values);
+          return;
+        }
+
+        errors.sort((a, b) => a.index - b.index);
+        reject(
+          new AggregateError(
+            errors.map((e) => e.error),
+            `${errors.length} of ${pump.count} mapped tasks failed`
+          )
+        );
+      },
+    });
+
+    pump.signal.addEventListener('abort', () => reject(pump.signal.reason), { once: true });
+    void pump.fill();
+  });
+}
+
+/**
+ * Map input items through the limiter and yield the results as they become available.
+ * Returns a pull-based iterable: nothing runs before the first `next()`.
+ */
+export function bulkStream<T, R>(
+  limiter: Limiter,
+  input: MapInput<T>,
+  mapper: Mapper<T, R>,
+  options: StreamOptions = {}
+): AsyncIterableIterator<R> {
+  const { ordered = false, ...bulkOptions } = options;
+  assertValidBulkOptions(bulkOptions);
+
+  return streamResults(limiter, input, mapper, bulkOptions, ordered);
+}
+
+async function* streamResults<T, R>(
+  limiter: Limiter,
+  input: MapInput<T>,
+  mapper: Mapper<T, R>,
+  options: BulkOptions,
+  ordered: boolean
+): AsyncGenerator<R, void, undefined> {
+  if (options.signal?.aborted) throw new AbortError('Bulk call aborted');
+
+  // ordered: results by input index, yielded from `head`; unordered: results in completion order.
+  const byIndex = new Map<number, PromiseSettledResult<R>>();
+  const completed: PromiseSettledResult<R>[] = [];
+  let head = 0;
+
+  let ended = false;
+  let failure: { error: unknown } | undefined;
+  let wake: (() => void) | undefined;
+
+  const notify = () => {
+    const w = wake;
+    wake = undefined;
+    w?.();
+  };
+
+  const buffered = () => (ordered ? byIndex.size : completed.length);
+
+  const take = (): PromiseSettledResult<R> | undefined => {
+    if (!ordered) return completed.shift();
+
+    const result = byIndex.get(head);
+    if (result) {
+      byIndex.delete(head);
+      head++;
+    }
+    return result;
+  };
+
+  // Finished but unconsumed results count against the window, which bounds the buffer.
+  const pump: Pump<T, R> = new Pump(limiter, input, mapper, options, {
+    hasRoom: (inFlight) => inFlight + buffered() < limiter.limit,
+    settle: (index, result) => {
+      if (ordered) byIndex.set(index, result);
+      else completed.push(result);
+      notify();
+    },
+    fail: notify,
+    end: () => {
+      ended = true;
+      notify();
+    },
+  });
+
+  pump.signal.addEventListener(
+    'abort',
+    () => {
+      failure ??= { error: pump.signal.reason };
+      notify();
+    },
+    { once: true }
+  );
+
+  try {
+    void pump.fill();
+
+    for (;;) {
+      const result = take();
+      if (result) {
+        if (result.status === 'rejected') throw result.reason;
+        // The result leaves the buffer now, so its room can be refilled while the consumer works.
+        void pump.fill();
+        yield result.value;
+        continue;
+      }
+
+      if (failure) throw failure.error;
+      if (ended) return;
+
+      await new Promise<void>((resolve) => (wake = resolve));
+    }
+  } finally {
+    // Early exit (break / return() / error): stop pulling and abort queued and running items.
+    pump.stop(new AbortError('Stream closed'));
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * @file clock.ts
+ * @description System clock and the virtual clock returned by createTestClock()
+ */
+
+import type { Clock, TestClock } from './types';
+
+/** Upper bound of timers fired by one `runAll()`: a timer that keeps rescheduling never ends. */
+const MAX_RUN_ALL_TIMERS = 100_000;
+
+/**
+ * Globals are looked up on every call, so fake-timer libraries installed later still apply.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+// Captured at load, so fake-timer libraries installed later do not replace them.
+const realSetImmediate = typeof setImmediate === 'function' ? setImmediate : undefined;
+const realSetTimeout = setTimeout;
+
+/**
+ * Run `fn` in a real macrotask: the microtask queue is drained first, including microtasks
+ * queued along the way.
+ */
+function macrotask(fn: () => void) {
+  if (realSetImmediate) realSetImmediate(fn);
+  else realSetTimeout(fn, 0);
+}
+
+type VirtualTimer = {
+  at: number;
+  callback: () => void;
+};
+
+/**
+ * Create a virtual clock for tests (see `LimiterOptions.clock`). Time starts at `startMs`
+ * (default 0) and only moves through `advance()` / `runAll()`; timers due at the same time
+ * fire in the order they were scheduled.
+ */
+export function createTestClock(startMs = 0): TestClock {
+  if (!Number.isFinite(startMs)) {
+    throw new RangeError(`createTestClock startMs must be a finite number. Received: ${startMs}`);
+  }
+
+  let time = startMs;
+  let nextId = 1;
+  const timers = new Map<number, VirtualTimer>();
+
+  const flush = () => new Promise<void>((resolve) => macrotask(resolve));
+
+  // Map iteration follows insertion (= scheduling) order, so the first of equal `at` wins.
+  const earliest = () => {
+    let found: [number, VirtualTimer] | undefined;
+    for (const entry of timers) {
+      if (!found || entry[1].at < found[1].at) found = entry;
+    }
+    return found;
+  };
+
+  const fire = async ([id, timer]: [number, VirtualTimer]) => {
+    timers.delete(id);
+    time = Math.max(time, timer.at);
+    timer.callback();
+    await flush();
+  };
+
+  return {
+    now: () => time,
+
+    setTimeout: (callback, ms) => {
+      const id = nextId++;
+      timers.set(id, { at: time + Math.max(0, Number(ms) || 0), callback });
+      return id;
+    },
+
+    clearTimeout: (handle) => {
+      timers.delete(handle as number);
+    },
+
+    get pendingTimers() {
+      return timers.size;
+    },
+
+    flush,
+
+    advance: async (ms) => {
+      if (!Number.isFinite(ms) || ms < 0) {
+        throw new RangeError(`advance() expects a finite number >= 0. Received: ${ms}`);
+      }
+
+      const target = time + ms;
+      await flush();
+      for (let next = earliest(); next && next[1].at <= target; next = earliest()) {
+        await fire(next);
+      }
+      time = target;
+    },
+
+    runAll: async () => {
+      await flush();
+      for (let fired = 0, next = earliest(); next; next = earliest()) {
+        if (++fired > MAX_RUN_ALL_TIMERS) {
+          throw new Error(`runAll() fired ${MAX_RUN_ALL_TIMERS} timers without running out`);
+        }
+        await fire(next);
+      }
+    },
+  };
+}
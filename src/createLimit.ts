@@ -3,30 +3,129 @@
  * @description p-limit style wrapper
  */
 
-import type { IdleOptions, LimiterOptions, RunOptions } from './types';
+import type {
+  AcquireOptions,
+  BulkOptions,
+  CloseOptions,
+  IdleOptions,
+  KeyedLimiterOptions,
+  LimiterEvents,
+  LimiterOptions,
+  LimiterStats,
+  MapInput,
+  MapOptions,
+  Mapper,
+  Permit,
+  RunOptions,
+  StreamOptions,
+  Task,
+} from './types';
+import type { Listener } from './events';
+import { KeyedLimiter } from './keyedLimiter';
 import { Limiter } from './limiter';
+import { asyncDisposeSymbol } from './symbols';
 
 export type LimitFn = {
-  <T>(fn: () => T | Promise<T>, options?: RunOptions): Promise<T>;
+  <T>(fn: Task<T>, options?: RunOptions): Promise<T>;
   readonly activeCount: number;
   readonly pendingCount: number;
+  readonly activeWeight: number;
+  readonly limit: number;
+  setLimit(limit: number): void;
+  readonly isPaused: boolean;
+  pause(): void;
+  resume(): void;
   onIdle(options?: IdleOptions): Promise<void>;
+  onEmpty(options?: IdleOptions): Promise<void>;
+  onPendingBelow(n: number, options?: IdleOptions): Promise<void>;
+  onSizeLessThan(n: number, options?: IdleOptions): Promise<void>;
+  acquire(options?: AcquireOptions): Promise<Permit>;
+  readonly isClosed: boolean;
+  close(options?: CloseOptions): Promise<void>;
+  [Symbol.asyncDispose](): Promise<void>;
+  on<E extends keyof LimiterEvents>(event: E, listener: Listener<LimiterEvents[E]>): () => void;
+  off<E extends keyof LimiterEvents>(event: E, listener: Listener<LimiterEvents[E]>): void;
+  stats(): LimiterStats | undefined;
+  resetStats(): void;
+  map<T, R>(input: MapInput<T>, mapper: Mapper<T, R>, options?: MapOptions): Promise<R[]>;
+  mapSettled<T, R>(
+    input: MapInput<T>,
+    mapper: Mapper<T, R>,
+    options?: BulkOptions
+  ): Promise<PromiseSettledResult<R>[]>;
+  stream<T, R>(
+    input: MapInput<T>,
+    mapper: Mapper<T, R>,
+    options?: StreamOptions
+  ): AsyncIterableIterator<R>;
   readonly limiter: Limiter;
 };
 
 export function createLimit(limit: number, options: LimiterOptions = {}): LimitFn {
   const limiter = new Limiter(limit, options);
 
-  async function wrapped<T>(fn: () => T | Promise<T>, runOptions: RunOptions = {}): Promise<T> {
+  async function wrapped<T>(fn: Task<T>, runOptions: RunOptions = {}): Promise<T> {
     return limiter.run(fn, runOptions);
   }
 
   Object.defineProperties(wrapped, {
     activeCount: { get: () => limiter.activeCount },
     pendingCount: { get: () => limiter.pendingCount },
+    activeWeight: { get: () => limiter.activeWeight },
+    limit: { get: () => limiter.limit },
+    setLimit: { value: (n: number) => limiter.setLimit(n) },
+    isPaused: { get: () => limiter.isPaused },
+    pause: { value: () => limiter.pause() },
+    resume: { value: () => limiter.resume() },
     limiter: { get: () => limiter },
     onIdle: { value: (opts?: IdleOptions) => limiter.onIdle(opts) },
+    onEmpty: { value: (opts?: IdleOptions) => limiter.onEmpty(opts) },
+    onPendingBelow: { value: (n: number, opts?: IdleOptions) => limiter.onPendingBelow(n, opts) },
+    onSizeLessThan: { value: (n: number, opts?: IdleOptions) => limiter.onPendingBelow(n, opts) },
+    acquire: { value: (opts?: AcquireOptions) => limiter.acquire(opts) },
+    isClosed: { get: () => limiter.isClosed },
+    close: { value: (opts?: CloseOptions) => limiter.close(opts) },
+    [asyncDisposeSymbol]: { value: () => limiter.close() },
+    on: { value: limiter.on.bind(limiter) },
+    off: { value: limiter.off.bind(limiter) },
+    stats: { value: () => limiter.stats() },
+    resetStats: { value: () => limiter.resetStats() },
+    map: { value: limiter.map.bind(limiter) },
+    mapSettled: { value: limiter.mapSettled.bind(limiter) },
+    stream: { value: limiter.stream.bind(limiter) },
   });
 
   return wrapped as LimitFn;
 }
+
+export type KeyedLimitFn<K = string> = {
+  <T>(key: K, fn: Task<T>, options?: RunOptions): Promise<T>;
+  readonly activeCount: number;
+  readonly pendingCount: number;
+  activeCountOf(key: K): number;
+  pendingCountOf(key: K): number;
+  onIdle(key?: K, options?: IdleOptions): Promise<void>;
+  readonly limiter: KeyedLimiter<K>;
+};
+
+export function createKeyedLimit<K = string>(
+  perKeyLimit: number,
+  options: KeyedLimiterOptions = {}
+): KeyedLimitFn<K> {
+  const limiter = new KeyedLimiter<K>(perKeyLimit, options);
+
+  async function wrapped<T>(key: K, fn: Task<T>, runOptions: RunOptions = {}): Promise<T> {
+    return limiter.run(key, fn, runOptions);
+  }
+
+  Object.defineProperties(wrapped, {
+    activeCount: { get: () => limiter.activeCount },
+    pendingCount: { get: () => limiter.pendingCount },
+    limiter: { get: () => limiter },
+    activeCountOf: { value: (key: K) => limiter.activeCountOf(key) },
+    pendingCountOf: { value: (key: K) => limiter.pendingCountOf(key) },
+    onIdle: { value: (key?: K, opts?: IdleOptions) => limiter.onIdle(key, opts) },
+  });
+
+  return wrapped as KeyedLimitFn<K>;
+}
@@ -0,0 +1,292 @@
+/**
+ * @file distributed.ts
+ * @description Concurrency limit shared between processes through leases in a LimiterStore
+ */
+
+import type {
+  Clock,
+  DistributedLimiterOptions,
+  LimiterStore,
+  SharedRunOptions,
+  Task,
+} from './types';
+import { AbortError, LeaseExpiredError, QueueOverflowError } from './errors';
+import {
+  assertValidAgingMs,
+  assertValidClock,
+  assertValidLimit,
+  assertValidMaxQueue,
+  assertValidPriority,
+  assertValidTimeoutMs,
+  assertValidWeight,
+} from './assert';
+import { systemClock } from './clock';
+import { startTask } from './execute';
+import { TaskQueue } from './queue';
+import { waitInQueue, type QueueWaiter } from './waiters';
+
+function assertValidStore(store: LimiterStore | undefined) {
+  if (
+    !store ||
+    typeof store.acquire !== 'function' ||
+    typeof store.renew !== 'function' ||
+    typeof store.release !== 'function'
+  ) {
+    throw new RangeError('DistributedLimiter store must implement acquire, renew and release');
+  }
+}
+
+function assertValidPositiveMs(name: string, ms: number) {
+  if (!Number.isFinite(ms) || ms <= 0) {
+    throw new RangeError(`${name} must be a positive finite number. Received: ${ms}`);
+  }
+}
+
+/**
+ * One concurrency limit enforced across processes (or hosts) through a `LimiterStore`.
+ * Every limiter created with the same store and `key` shares the limit.
+ *
+ * - A running task holds a lease that it renews every `leaseTtlMs / 3`. If its process crashes,
+ *   the lease expires after `leaseTtlMs` and the slot returns to the pool.
+ * - Each limiter queues its own waiters (priority, weight, `maxQueue`, `queueTimeoutMs`,
+ *   `signal`) and asks the store for the head's lease, polling every `pollMs` while the key is
+ *   full. Between processes, freed slots go to whichever limiter asks first.
+ * - Every limiter passes its own `limit` to the store: create them all with the same one.
+ */
+export class DistributedLimiter {
+  readonly limit: number;
+  readonly key: string;
+
+  private readonly store: LimiterStore;
+  private readonly queue: TaskQueue<QueueWaiter<string>>;
+  private seq = 0;
+  private active = 0;
+  /** A store request for the queue head is in flight. */
+  private pumping = false;
+  /** pump() was called during that request: retry at once instead of polling. */
+  private again = false;
+  private pollTimer?: unknown;
+
+  private readonly leaseTtlMs: number;
+  private readonly pollMs: number;
+  private readonly maxQueue: number;
+  private readonly defaultQueueTimeoutMs?: number;
+  private readonly defaultRunTimeoutMs?: number;
+  private readonly defaultSignal?: AbortSignal;
+  private readonly releaseOnCancel: boolean;
+  private readonly clock: Clock;
+
+  constructor(limit: number, options: DistributedLimiterOptions) {
+    assertValidLimit(limit);
+
+    const {
+      store,
+      key = 'default',
+      leaseTtlMs = 30_000,
+      pollMs = 50,
+      maxQueue = Number.POSITIVE_INFINITY,
+      queueTimeoutMs = undefined,
+      runTimeoutMs = undefined,
+      signal = undefined,
+      priorityAgingMs = Number.POSITIVE_INFINITY,
+      releaseOnCancel = false,
+      clock = systemClock,
+    } = options ?? ({} as DistributedLimiterOptions);
+
+    assertValidStore(store);
+    if (typeof key !== 'string' || key === '') {
+      throw new RangeError(`DistributedLimiter key must be a non-empty string. Received: ${key}`);
+    }
+    assertValidPositiveMs('leaseTtlMs', leaseTtlMs);
+    assertValidPositiveMs('pollMs', pollMs);
+    assertValidMaxQueue(maxQueue);
+    assertValidTimeoutMs('queueTimeoutMs', queueTimeoutMs);
+    assertValidTimeoutMs('runTimeoutMs', runTimeoutMs);
+    assertValidAgingMs(priorityAgingMs);
+    assertValidClock(clock);
+
+    this.limit = limit;
+    this.key = key;
+    this.store = store!;
+    this.leaseTtlMs = leaseTtlMs;
+    this.pollMs = pollMs;
+    this.maxQueue = maxQueue;
+    this.defaultQueueTimeoutMs = queueTimeoutMs;
+    this.defaultRunTimeoutMs = runTimeoutMs;
+    this.defaultSignal = signal;
+    this.releaseOnCancel = releaseOnCancel;
+    this.queue = new TaskQueue(priorityAgingMs);
+    this.clock = clock;
+  }
+
+  /**
+   * Tasks of this limiter that hold a lease (other processes' tasks are not included).
+   */
+  get activeCount() {
+    return this.active;
+  }
+
+  /**
+   * Tasks waiting in this limiter's queue.
+   */
+  get pendingCount() {
+    return this.queue.length;
+  }
+
+  /**
+   * Run a task within the distributed limit. Same semantics as `Limiter#run()` for `signal`,
+   * `queueTimeoutMs`, `runTimeoutMs`, `priority` and `weight`; the lease is released on settle,
+   * abort or run timeout.
+   *
+   * Rejects with the store's error if taking the lease fails, and with `LeaseExpiredError` if the
+   * lease is lost while the task runs.
+   */
+  async run<T>(fn: Task<T>, options: SharedRunOptions = {}): Promise<T> {
+    const signal = options.signal ?? this.defaultSignal;
+    const queueTimeoutMs = options.queueTimeoutMs ?? this.defaultQueueTimeoutMs;
+    const runTimeoutMs = options.runTimeoutMs ?? this.defaultRunTimeoutMs;
+    const { priority = 0, weight = 1 } = options;
+
+    assertValidTimeoutMs('queueTimeoutMs', queueTimeoutMs);
+    assertValidTimeoutMs('runTimeoutMs', runTimeoutMs);
+    assertValidPriority(priority);
+    assertValidWeight(weight, this.limit);
+
+    const leaseId = await this.waitForLease(signal, queueTimeoutMs, priority, weight);
+    let stopRenewing: (() => void) | undefined;
+    let released = false;
+    this.active++;
+
+    const task = startTask(fn, {
+      signal,
+      runTimeoutMs,
+      clock: this.clock,
+      releaseOnCancel: this.releaseOnCancel,
+      onRelease: () => {
+        released = true;
+        stopRenewing?.();
+        this.active--;
+        void this.releaseLease(leaseId);
+      },
+    });
+    // A task that settles synchronously has already given its lease back.
+    if (!released) stopRenewing = this.keepAlive(leaseId, task.cancel);
+
+    return task.promise;
+  }
+
+  private waitForLease(
+    signal: AbortSignal | undefined,
+    queueTimeoutMs: number | undefined,
+    priority: number,
+    weight: number
+  ): Promise<string> {
+    if (signal?.aborted) return Promise.reject(new AbortError('Task aborted before start'));
+
+    if (this.queue.length >= this.maxQueue) {
+      return Promise.reject(
+        new QueueOverflowError(
+          `Queue overflow: pending=${this.queue.length}, maxQueue=${this.maxQueue}`
+        )
+      );
+    }
+
+    return waitInQueue(
+      this.queue,
+      { priority, weight, seq: this.seq++ },
+      { signal, queueTimeoutMs },
+      this.clock,
+      () => this.pump()
+    );
+  }
+
+  /**
+   * Ask the store for a lease for the queue head until the queue is empty or the key is full
+   * (then poll). One request at a time, so waiters are served in queue order.
+   */
+  private pump() {
+    if (this.pumping) {
+      this.again = true;
+      return;
+    }
+
+    this.clock.clearTimeout(this.pollTimer);
+    this.pollTimer = undefined;
+    this.pumping = true;
+    void this.drain().finally(() => {
+      this.pumping = false;
+    });
+  }
+
+  private async drain() {
+    for (;;) {
+      const head = this.queue.peek();
+      if (!head) return;
+
+      this.again = false;
+      let leaseId: string | null;
+      try {
+        leaseId = await this.store.acquire({
+          key: this.key,
+          limit: this.limit,
+          weight: head.weight,
+          ttlMs: this.leaseTtlMs,
+        });
+      } catch (err) {
+        if (this.queue.remove(head)) head.fail(err);
+        continue;
+      }
+
+      if (leaseId === null) {
+        if (this.again) continue;
+        this.pollTimer = this.clock.setTimeout(() => this.pump(), this.pollMs);
+        return;
+      }
+
+      if (this.queue.remove(head)) head.grant(leaseId);
+      // The waiter gave up during the request.
+      else void this.releaseLease(leaseId);
+    }
+  }
+
+  /**
+   * Renew the lease every `leaseTtlMs / 3` and cancel the task once it is lost: the store reports
+   * it expired, or no renewal succeeded within `leaseTtlMs` (the store may have expired it).
+   */
+  private keepAlive(leaseId: string, cancel: (error: Error) => void): () => void {
+    let expiresAt = this.clock.now() + this.leaseTtlMs;
+    let timer: unknown;
+
+    const tick = () => {
+      if (this.clock.now() >= expiresAt) {
+        cancel(new LeaseExpiredError());
+        return;
+      }
+      timer = this.clock.setTimeout(tick, this.leaseTtlMs / 3);
+
+      const sentAt = this.clock.now();
+      Promise.resolve()
+        .then(() => this.store.renew(this.key, leaseId, this.leaseTtlMs))
+        .then(
+          (renewed) => {
+            if (renewed) expiresAt = sentAt + this.leaseTtlMs;
+            else cancel(new LeaseExpiredError());
+          },
+          // Retried on the next tick.
+          () => {}
+        );
+    };
+
+    timer = this.clock.setTimeout(tick, this.leaseTtlMs / 3);
+    return () => this.clock.clearTimeout(timer);
+  }
+
+  private async releaseLease(leaseId: string) {
+    try {
+      await this.store.release(this.key, leaseId);
+    } catch {
+      // The lease expires on its own.
+    }
+    this.pump();
+  }
+}
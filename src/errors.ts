@@ -3,11 +3,19 @@
  * @description async-limiter errors (exported)
  */
 
+import type { RetryAttempt } from './types';
+
 export type AsyncLimiterErrorCode =
   | 'ERR_ASYNC_LIMITER_QUEUE_OVERFLOW'
+  | 'ERR_ASYNC_LIMITER_QUEUE_EVICTED'
   | 'ERR_ASYNC_LIMITER_QUEUE_TIMEOUT'
+  | 'ERR_ASYNC_LIMITER_RUN_TIMEOUT'
+  | 'ERR_ASYNC_LIMITER_DEADLINE_EXCEEDED'
+  | 'ERR_ASYNC_LIMITER_LEASE_EXPIRED'
   | 'ERR_ASYNC_LIMITER_ABORTED'
-  | 'ERR_ASYNC_LIMITER_IDLE_TIMEOUT';
+  | 'ERR_ASYNC_LIMITER_CLOSED'
+  | 'ERR_ASYNC_LIMITER_IDLE_TIMEOUT'
+  | 'ERR_ASYNC_LIMITER_RETRY_FAILED';
 
 export class AsyncLimiterError extends Error {
   public readonly code: AsyncLimiterErrorCode;
@@ -26,12 +34,47 @@ export class QueueOverflowError extends AsyncLimiterError {
   }
 }
 
+/**
+ * A queued task was dropped to make room for a newer one (see `overflowStrategy`).
+ */
+export class QueueEvictedError extends AsyncLimiterError {
+  constructor(message = 'Queue eviction: task was dropped from a full queue') {
+    super(message, 'ERR_ASYNC_LIMITER_QUEUE_EVICTED');
+  }
+}
+
 export class QueueTimeoutError extends AsyncLimiterError {
   constructor(message = 'Queue timeout: task waited too long before execution') {
     super(message, 'ERR_ASYNC_LIMITER_QUEUE_TIMEOUT');
   }
 }
 
+export class RunTimeoutError extends AsyncLimiterError {
+  constructor(message = 'Run timeout: task did not finish in time') {
+    super(message, 'ERR_ASYNC_LIMITER_RUN_TIMEOUT');
+  }
+}
+
+/**
+ * The task's deadline (`deadline` / `deadlineMs`) passed while it was queued or running.
+ */
+export class DeadlineExceededError extends AsyncLimiterError {
+  constructor(message = 'Deadline exceeded: task did not finish before its deadline') {
+    super(message, 'ERR_ASYNC_LIMITER_DEADLINE_EXCEEDED');
+  }
+}
+
+/**
+ * A `DistributedLimiter` task's lease expired before it could be renewed (e.g. the store was
+ * unreachable, or the process stalled for longer than `leaseTtlMs`). The task is cancelled,
+ * since its slot may already belong to someone else.
+ */
+export class LeaseExpiredError extends AsyncLimiterError {
+  constructor(message = 'Lease expired: the task no longer holds a slot') {
+    super(message, 'ERR_ASYNC_LIMITER_LEASE_EXPIRED');
+  }
+}
+
 /**
  * A lightweight AbortError compatible with typical "AbortError" checks.
  * Note: DOMException('AbortError') is not consistently available across runtimes,
@@ -44,8 +87,32 @@ export class AbortError extends AsyncLimiterError {
   }
 }
 
+export class LimiterClosedError extends AsyncLimiterError {
+  constructor(message = 'Limiter is closed: no new tasks are accepted') {
+    super(message, 'ERR_ASYNC_LIMITER_CLOSED');
+  }
+}
+
 export class IdleTimeoutError extends AsyncLimiterError {
   constructor(message = 'Idle timeout: limiter did not become idle in time') {
     super(message, 'ERR_ASYNC_LIMITER_IDLE_TIMEOUT');
   }
 }
+
+/**
+ * A task with a retry policy failed and will not be retried
+ * (attempts exhausted, `shouldRetry` returned false, or `maxTotalMs` reached).
+ * `cause` is the error of the last attempt.
+ */
+export class RetryError extends AsyncLimiterError {
+  public readonly attempts: RetryAttempt[];
+
+  constructor(attempts: RetryAttempt[], message?: string) {
+    super(
+      message ?? `Task failed after ${attempts.length} attempt(s)`,
+      'ERR_ASYNC_LIMITER_RETRY_FAILED'
+    );
+    this.attempts = attempts;
+    this.cause = attempts[attempts.length - 1]?.error;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * @file events.ts
+ * @description Minimal typed event emitter (internal, works in Node and browsers)
+ */
+
+export type Listener<T> = (event: T) => void;
+
+export class Emitter<M> {
+  private listeners = new Map<keyof M, Set<Listener<never>>>();
+
+  on<E extends keyof M>(event: E, listener: Listener<M[E]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends keyof M>(event: E, listener: Listener<M[E]>) {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    set.delete(listener);
+    if (set.size === 0) this.listeners.delete(event);
+  }
+
+  /**
+   * Call every listener of `event`. A throwing listener is ignored so it can never
+   * break the caller (or the other listeners).
+   */
+  emit<E extends keyof M>(event: E, payload: M[E]) {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    for (const listener of Array.from(set) as Listener<M[E]>[]) {
+      try {
+        listener(payload);
+      } catch {
+        // ignore listener errors
+      }
+    }
+  }
+}
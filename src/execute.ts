@@ -0,0 +1,126 @@
+/**
+ * @file execute.ts
+ * @description Run a task under a linked signal, a run timeout and a deadline (internal, shared by
+ * every limiter)
+ */
+
+import type { Clock, Task, TaskContext } from './types';
+import { AbortError, DeadlineExceededError, RunTimeoutError } from './errors';
+import { addAbortHandler } from './waiters';
+
+export type TaskOutcome<T> = { ok: true; value: T } | { ok: false; error: unknown };
+
+export type StartTaskOptions<T> = {
+  signal?: AbortSignal;
+  runTimeoutMs?: number;
+  /** Absolute deadline (epoch ms): passed to the task's context, and cancels the run once passed. */
+  deadline?: number;
+  clock: Clock;
+  /** Called once with the outcome, before the promise settles. */
+  onSettle?: (outcome: TaskOutcome<T>) => void;
+  /**
+   * Called once the slot can be given back: when `fn` settles, even after the promise was
+   * rejected by a cancellation (a task that ignores its signal keeps its slot until it ends).
+   * With `releaseOnCancel`, at the cancellation instead.
+   */
+  onRelease?: () => void;
+  releaseOnCancel?: boolean;
+};
+
+/**
+ * Start `fn` with a task signal linked to `signal`. The promise rejects on abort, run timeout,
+ * deadline or `cancel(error)` without waiting for `fn` to notice; the task signal aborts with
+ * that error. `onRelease` runs before the promise settles when `fn` settles first.
+ */
+export function startTask<T>(
+  fn: Task<T>,
+  options: StartTaskOptions<T>
+): { promise: Promise<T>; cancel: (error: Error) => void } {
+  const { signal, runTimeoutMs, deadline, clock, onSettle, onRelease, releaseOnCancel } = options;
+  const controller = new AbortController();
+  const context: TaskContext = {
+    deadline,
+    remainingMs: () =>
+      deadline == null ? Number.POSITIVE_INFINITY : Math.max(0, deadline - clock.now()),
+  };
+  let cancel!: (error: Error) => void;
+
+  const promise = new Promise<T>((resolve, reject) => {
+    let done = false;
+    /** `fn` is not running: not started yet, or settled. */
+    let idle = true;
+    let released = false;
+    const cleanups: Array<() => void> = [];
+
+    const release = () => {
+      if (released) return;
+      released = true;
+      onRelease?.();
+    };
+
+    const finish = (outcome: TaskOutcome<T>) => {
+      if (done) return;
+      done = true;
+      for (const fn of cleanups.splice(0)) fn();
+
+      onSettle?.(outcome);
+      if (idle || releaseOnCancel) release();
+      if (outcome.ok) resolve(outcome.value);
+      else reject(outcome.error);
+    };
+
+    const settle = (outcome: TaskOutcome<T>) => {
+      idle = true;
+      if (done) release();
+      else finish(outcome);
+    };
+
+    cancel = (error: Error) => {
+      if (done) return;
+      finish({ ok: false, error });
+      controller.abort(error);
+    };
+
+    if (signal?.aborted) {
+      cancel(new AbortError('Task aborted before start'));
+      return;
+    }
+
+    const rmAbort = addAbortHandler(signal, () =>
+      cancel(new AbortError('Task aborted while running'))
+    );
+    if (rmAbort) cleanups.push(rmAbort);
+
+    if (runTimeoutMs != null) {
+      const t = clock.setTimeout(
+        () => cancel(new RunTimeoutError(`Task ran longer than ${runTimeoutMs}ms`)),
+        runTimeoutMs
+      );
+      cleanups.push(() => clock.clearTimeout(t));
+    }
+
+    if (deadline != null) {
+      const t = clock.setTimeout(
+        () => cancel(new DeadlineExceededError('Task deadline passed while running')),
+        Math.max(0, deadline - clock.now())
+      );
+      cleanups.push(() => clock.clearTimeout(t));
+    }
+
+    let result: T | Promise<T>;
+    idle = false;
+    try {
+      result = fn(controller.signal, context);
+    } catch (error) {
+      settle({ ok: false, error });
+      return;
+    }
+
+    Promise.resolve(result).then(
+      (value) => settle({ ok: true, value }),
+      (error) => settle({ ok: false, error })
+    );
+  });
+
+  return { promise, cancel };
+}
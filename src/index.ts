@@ -3,16 +3,64 @@
  * @description Public exports
  */
 
-export type { LimiterOptions, RunOptions, IdleOptions } from './types';
+export type {
+  LimiterOptions,
+  Clock,
+  TestClock,
+  KeyedLimiterOptions,
+  RunOptions,
+  AcquireOptions,
+  SharedLimiterOptions,
+  SharedRunOptions,
+  DistributedLimiterOptions,
+  LimiterStore,
+  LeaseRequest,
+  MemoryStoreOptions,
+  Permit,
+  IdleOptions,
+  CloseOptions,
+  RetryOptions,
+  OverflowStrategy,
+  QueueMode,
+  QueuedTaskInfo,
+  AdaptiveOptions,
+  AdaptiveReason,
+  RetryAttempt,
+  BulkOptions,
+  MapOptions,
+  StreamOptions,
+  MapInput,
+  Mapper,
+  Task,
+  TaskContext,
+  LimiterEvents,
+  LimiterRejectReason,
+  LimiterStats,
+  LatencySummary,
+  PrometheusOptions,
+} from './types';
+export type { Listener } from './events';
 
 export {
   AsyncLimiterError,
   AbortError,
   QueueOverflowError,
+  QueueEvictedError,
   QueueTimeoutError,
+  RunTimeoutError,
+  DeadlineExceededError,
+  LeaseExpiredError,
+  LimiterClosedError,
   IdleTimeoutError,
+  RetryError,
 } from './errors';
 
 export { Limiter } from './limiter';
-export { createLimit } from './createLimit';
-export type { LimitFn } from './createLimit';
+export { KeyedLimiter } from './keyedLimiter';
+export { SharedLimiter } from './shared';
+export { DistributedLimiter } from './distributed';
+export { MemoryStore } from './store';
+export { formatPrometheus } from './stats';
+export { createTestClock } from './clock';
+export { createLimit, createKeyedLimit } from './createLimit';
+export type { LimitFn, KeyedLimitFn } from './createLimit';
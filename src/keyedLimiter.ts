@@ -0,0 +1,196 @@
+/**
+ * @file keyedLimiter.ts
+ * @description Per-key concurrency limiter with an optional global cap.
+ */
+
+import type {
+  Clock,
+  IdleOptions,
+  KeyedLimiterOptions,
+  LimiterOptions,
+  RunOptions,
+  Task,
+} from './types';
+import { AbortError, IdleTimeoutError } from './errors';
+import { assertValidLimiterOptions, assertValidTimeoutMs } from './assert';
+import { systemClock } from './clock';
+import { Limiter } from './limiter';
+import { notifyAll, waitOn, type Waiters } from './waiters';
+
+type KeyState = {
+  limiter: Limiter;
+  /** Tasks that hold a key slot but are still waiting for a global slot. */
+  waitingGlobal: number;
+  /** Unsettled run() calls (including runs sleeping in a retry backoff). */
+  calls: number;
+};
+
+export class KeyedLimiter<K = string> {
+  private states = new Map<K, KeyState>();
+
+  private readonly perKeyLimit: number;
+  private readonly keyOptions: LimiterOptions;
+  private readonly global?: Limiter;
+  private readonly clock: Clock;
+
+  private idleWaiters: Waiters = new Set();
+
+  constructor(perKeyLimit: number, options: KeyedLimiterOptions = {}) {
+    const { globalLimit, ...keyOptions } = options;
+
+    // Validate per-key options once, up front, instead of on the first run() of each key.
+    assertValidLimiterOptions(perKeyLimit, keyOptions);
+
+    this.perKeyLimit = perKeyLimit;
+    this.keyOptions = keyOptions;
+    this.clock = keyOptions.clock ?? systemClock;
+    if (globalLimit != null) this.global = new Limiter(globalLimit, { clock: this.clock });
+  }
+
+  /**
+   * Number of running tasks across all keys.
+   */
+  get activeCount() {
+    let n = 0;
+    for (const key of this.states.keys()) n += this.activeCountOf(key);
+    return n;
+  }
+
+  /**
+   * Number of waiting tasks across all keys (per-key queue + waiting for the global cap).
+   */
+  get pendingCount() {
+    let n = 0;
+    for (const key of this.states.keys()) n += this.pendingCountOf(key);
+    return n;
+  }
+
+  /**
+   * Number of keys with running or waiting tasks (idle keys are evicted).
+   */
+  get size() {
+    return this.states.size;
+  }
+
+  activeCountOf(key: K) {
+    const state = this.states.get(key);
+    return state ? state.limiter.activeCount - state.waitingGlobal : 0;
+  }
+
+  pendingCountOf(key: K) {
+    const state = this.states.get(key);
+    return state ? state.limiter.pendingCount + state.waitingGlobal : 0;
+  }
+
+  /**
+   * Run a task under the limit of `key` (and the global cap, if configured).
+   *
+   * - A task first waits for a slot of its key, then for a global slot, so a busy key
+   *   never holds global capacity while waiting.
+   * - `queueTimeoutMs` covers both waits combined; `signal` covers both waits and the execution.
+   */
+  async run<T>(key: K, fn: Task<T>, options: RunOptions = {}): Promise<T> {
+    const state = this.stateFor(key);
+    state.calls++;
+
+    try {
+      if (!this.global) return await state.limiter.run(fn, options);
+      return await this.runWithGlobal(this.global, state, fn, options);
+    } finally {
+      state.calls--;
+      this.evictIfIdle(key, state);
+    }
+  }
+
+  /**
+   * Resolve when `key` becomes idle, or when every key is idle if `key` is omitted.
+   */
+  async onIdle(key?: K, options: IdleOptions = {}): Promise<void> {
+    const { signal, timeoutMs } = options;
+    assertValidTimeoutMs('timeoutMs', timeoutMs);
+
+    if (signal?.aborted) throw new AbortError('Idle wait aborted');
+
+    if (key !== undefined) {
+      const state = this.states.get(key);
+      if (state) await state.limiter.onIdle(options);
+      return;
+    }
+
+    if (this.states.size === 0) return;
+
+    await waitOn(this.idleWaiters, options, this.clock, {
+      aborted: 'Idle wait aborted',
+      timeout: () => new IdleTimeoutError(),
+    });
+  }
+
+  private stateFor(key: K): KeyState {
+    let state = this.states.get(key);
+    if (!state) {
+      // With a global cap, runTimeoutMs is applied to the global run (the actual execution).
+      const options = this.global
+        ? { ...this.keyOptions, runTimeoutMs: undefined }
+        : this.keyOptions;
+      state = { limiter: new Limiter(this.perKeyLimit, options), waitingGlobal: 0, calls: 0 };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  private evictIfIdle(key: K, state: KeyState) {
+    if (state.calls !== 0) return;
+    if (this.states.get(key) !== state) return;
+
+    this.states.delete(key);
+    if (this.states.size === 0) notifyAll(this.idleWaiters);
+  }
+
+  private runWithGlobal<T>(
+    global: Limiter,
+    state: KeyState,
+    fn: Task<T>,
+    options: RunOptions
+  ): Promise<T> {
+    const queueTimeoutMs = options.queueTimeoutMs ?? this.keyOptions.queueTimeoutMs;
+    const runTimeoutMs = options.runTimeoutMs ?? this.keyOptions.runTimeoutMs;
+    const start = this.clock.now();
+
+    return state.limiter.run(
+      (signal, context) => {
+        let waiting = true;
+        const stopWaiting = () => {
+          if (!waiting) return;
+          waiting = false;
+          state.waitingGlobal--;
+        };
+
+        state.waitingGlobal++;
+
+        // `signal` is linked to the caller's signal, so it covers the global wait and the run.
+        // The deadline of the key run carries over unchanged.
+        return global
+          .run(
+            (inner, innerContext) => {
+              stopWaiting();
+              return fn(inner, innerContext);
+            },
+            {
+              signal,
+              priority: options.priority,
+              weight: options.weight,
+              deadline: context.deadline,
+              group: options.group,
+              queueTimeoutMs:
+                queueTimeoutMs == null
+                  ? undefined
+                  : Math.max(0, queueTimeoutMs - (this.clock.now() - start)),
+              runTimeoutMs,
+            }
+          )
+          .finally(stopWaiting);
+      },
+      { ...options, runTimeoutMs: undefined }
+    );
+  }
+}
@@ -3,8 +3,61 @@
  * @description Concurrency limiter with observability and safety options.
  */
 
-import type { IdleOptions, LimiterOptions, RunOptions } from './types';
-import { AbortError, IdleTimeoutError, QueueOverflowError, QueueTimeoutError } from './errors';
+import type {
+  AcquireOptions,
+  BulkOptions,
+  Clock,
+  CloseOptions,
+  IdleOptions,
+  LimiterEvents,
+  LimiterOptions,
+  LimiterRejectReason,
+  LimiterStats,
+  MapInput,
+  MapOptions,
+  Mapper,
+  OverflowStrategy,
+  Permit,
+  QueuedTaskInfo,
+  RetryAttempt,
+  RetryOptions,
+  RunOptions,
+  StreamOptions,
+  Task,
+} from './types';
+import {
+  AbortError,
+  DeadlineExceededError,
+  IdleTimeoutError,
+  LimiterClosedError,
+  QueueEvictedError,
+  QueueOverflowError,
+  QueueTimeoutError,
+  RetryError,
+} from './errors';
+import {
+  assertValidLimit,
+  assertValidLimiterOptions,
+  assertValidTimeoutMs,
+  assertValidPriority,
+  assertValidWeight,
+  assertValidRetry,
+  assertValidDeadline,
+  assertValidGroup,
+  assertValidPendingThreshold,
+} from './assert';
+import { AdaptiveController } from './adaptive';
+import { bulkMap, bulkMapSettled, bulkStream } from './bulk';
+import { systemClock } from './clock';
+import { Emitter, type Listener } from './events';
+import { startTask } from './execute';
+import type { TaskOutcome } from './execute';
+import { LeakDetector, LimiterPermit } from './permit';
+import { DeadlineQueue, FairQueue, TaskQueue, type Queue } from './queue';
+import { backoffDelay, sleep } from './retry';
+import { StatsCollector } from './stats';
+import { asyncDisposeSymbol } from './symbols';
+import { addAbortHandler, armQueueWait, notifyAll, waitOn, type Waiters } from './waiters';
 
 type Defer = {
   resolve: () => boolean;
@@ -13,39 +66,92 @@ type Defer = {
 
 type QueueEntry = {
   defer: Defer;
+  priority: number;
+  weight: number;
+  seq: number;
+  enqueuedAt: number;
+  deadline?: number;
+  group?: string;
   removed: boolean;
   cleanup: (() => void)[];
   remove: () => void;
 };
 
-function now() {
-  return Date.now();
-}
+type WaitArgs = {
+  signal?: AbortSignal;
+  queueTimeoutMs?: number;
+  priority?: number;
+  weight?: number;
+  deadline?: number;
+  group?: string;
+};
 
-function assertValidLimit(limit: number) {
-  if (!Number.isFinite(limit) || limit <= 0) {
-    throw new RangeError(`Limiter limit must be a positive finite number. Received: ${limit}`);
-  }
+/** One deduplicated execution shared by every caller of its key. */
+type Flight = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting for the result. */
+  callers: number;
+  /** Set once fulfilled, while the result is kept for `ttlMs` (until `expiresAt`). */
+  result?: { value: unknown; expiresAt: number };
+};
+
+/** RunOptions with limiter defaults applied (validated). */
+type RunArgs = {
+  signal?: AbortSignal;
+  queueTimeoutMs?: number;
+  runTimeoutMs?: number;
+  priority: number;
+  weight: number;
+  /** Absolute deadline (epoch ms). */
+  deadline?: number;
+  group?: string;
+};
+
+/** Creation order of limiters: the canonical acquisition order of `Limiter.runAll()`. */
+let nextId = 0;
+
+/**
+ * Absolute deadline of a call: the earlier of `deadline` and `now + deadlineMs`.
+ */
+function resolveDeadline(options: { deadline?: number; deadlineMs?: number }, clock: Clock) {
+  const { deadline, deadlineMs } = options;
+  assertValidDeadline(deadline);
+  assertValidTimeoutMs('deadlineMs', deadlineMs);
+
+  if (deadlineMs == null) return deadline;
+  const fromBudget = clock.now() + deadlineMs;
+  return deadline == null ? fromBudget : Math.min(deadline, fromBudget);
 }
 
-function assertValidMaxQueue(maxQueue: number) {
-  if ((maxQueue !== Number.POSITIVE_INFINITY && !Number.isFinite(maxQueue)) || maxQueue < 0) {
-    throw new RangeError(
-      `Limiter maxQueue must be a number >= 0 (or Infinity). Received: ${maxQueue}`
-    );
-  }
+function isExpired(deadline: number | undefined, clock: Clock) {
+  return deadline != null && clock.now() >= deadline;
 }
 
-function assertValidTimeoutMs(name: string, ms: number | undefined) {
-  if (ms == null) return;
-  if (!Number.isFinite(ms) || ms < 0) {
-    throw new RangeError(`${name} must be a finite number >= 0 (or undefined). Received: ${ms}`);
-  }
+function rejectReason(err: unknown): LimiterRejectReason | undefined {
+  if (err instanceof QueueOverflowError) return 'overflow';
+  if (err instanceof QueueEvictedError) return 'evicted';
+  if (err instanceof QueueTimeoutError) return 'timeout';
+  if (err instanceof DeadlineExceededError) return 'deadline';
+  if (err instanceof AbortError) return 'abort';
+  if (err instanceof LimiterClosedError) return 'closed';
+  return undefined;
 }
 
-function makeQueueEntry(defer: Defer): QueueEntry {
+function makeQueueEntry(
+  defer: Defer,
+  meta: {
+    priority: number;
+    weight: number;
+    seq: number;
+    enqueuedAt: number;
+    deadline?: number;
+    group?: string;
+  }
+): QueueEntry {
   const entry: QueueEntry = {
     defer,
+    ...meta,
     removed: false,
     cleanup: [],
     remove: () => {
@@ -57,36 +163,91 @@ function makeQueueEntry(defer: Defer): QueueEntry {
   return entry;
 }
 
-function addAbortHandler(signal: AbortSignal | undefined, onAbort: () => void): (() => void) | null {
-  if (!signal) return null;
-  signal.addEventListener('abort', onAbort, { once: true });
-  return () => signal.removeEventListener('abort', onAbort);
-}
-
 export class Limiter {
+  private readonly id = nextId++;
   private active = 0;
-  private queue: QueueEntry[] = [];
+  private used = 0;
+  private paused = false;
+  private closed = false;
+  private queue: FairQueue<QueueEntry>;
+  private seq = 0;
 
-  private readonly limit: number;
+  private concurrency: number;
+  /** With `adaptive`: its `maxLimit`, the heaviest weight accepted while the limit shrinks below it. */
+  private readonly maxAdaptiveLimit?: number;
   private readonly maxQueue: number;
+  private readonly groupMaxQueue: number;
+  private readonly overflowStrategy: OverflowStrategy;
   private readonly defaultQueueTimeoutMs?: number;
+  private readonly defaultRunTimeoutMs?: number;
   private readonly defaultSignal?: AbortSignal;
+  private readonly defaultRetry?: RetryOptions;
+  private readonly releaseOnCancel: boolean;
+  private readonly clock: Clock;
 
-  private idleWaiters = new Set<() => void>();
+  private readonly intervalCap: number;
+  private readonly intervalMs: number;
+  private intervalStart = Number.NEGATIVE_INFINITY;
+  private intervalCount = 0;
+  private intervalTimer?: unknown;
 
-  constructor(limit: number, options: LimiterOptions = {}) {
-    assertValidLimit(limit);
+  /** Unsettled runs with a retry policy: not idle while one may still queue another attempt. */
+  private retrying = 0;
+  /** Cancel functions of runs sleeping in a retry backoff (they hold no slot and no queue entry). */
+  private backoffs = new Set<(err: unknown) => void>();
 
-    const { maxQueue = Number.POSITIVE_INFINITY, queueTimeoutMs = undefined, signal = undefined } =
-      options;
+  private flights = new Map<string, Flight>();
 
-    assertValidMaxQueue(maxQueue);
-    assertValidTimeoutMs('queueTimeoutMs', queueTimeoutMs);
+  private idleWaiters: Waiters = new Set();
+  /** `onPendingBelow(n)` waiters, by `n`. */
+  private pendingWaiters = new Map<number, Waiters>();
+  private events = new Emitter<LimiterEvents>();
+  private readonly collector?: StatsCollector;
+  private readonly leaks?: LeakDetector;
+
+  constructor(limit: number, options: LimiterOptions = {}) {
+    assertValidLimiterOptions(limit, options);
 
-    this.limit = limit;
+    const {
+      maxQueue = Number.POSITIVE_INFINITY,
+      queueTimeoutMs = undefined,
+      runTimeoutMs = undefined,
+      signal = undefined,
+      releaseOnCancel = false,
+      priorityAgingMs = Number.POSITIVE_INFINITY,
+      intervalCap = Number.POSITIVE_INFINITY,
+      intervalMs = undefined,
+      stats = false,
+      retry = undefined,
+      adaptive = undefined,
+      overflowStrategy = 'reject-new',
+      queueMode = 'priority',
+      debug = false,
+      groupShares = {},
+      groupMaxQueue = Number.POSITIVE_INFINITY,
+      clock = systemClock,
+    } = options;
+
+    this.clock = clock;
+    this.concurrency = limit;
+    this.maxAdaptiveLimit = adaptive?.maxLimit;
     this.maxQueue = maxQueue;
+    this.groupMaxQueue = groupMaxQueue;
+    this.overflowStrategy = overflowStrategy;
     this.defaultQueueTimeoutMs = queueTimeoutMs;
+    this.defaultRunTimeoutMs = runTimeoutMs;
     this.defaultSignal = signal;
+    this.defaultRetry = retry;
+    this.releaseOnCancel = releaseOnCancel;
+    this.queue = new FairQueue<QueueEntry>(
+      () => (queueMode === 'edf' ? new DeadlineQueue() : new TaskQueue(priorityAgingMs)),
+      groupShares
+    );
+    this.intervalCap = intervalCap;
+    this.intervalMs = intervalMs ?? 0;
+    if (stats) this.collector = new StatsCollector(this.events);
+    if (adaptive) new AdaptiveController(this, this.events, adaptive, clock);
+    if (debug) this.leaks = new LeakDetector();
   }
 
   get activeCount() {
@@ -97,124 +258,879 @@ export class Limiter {
     return this.queue.length;
   }
 
+  /**
+   * Number of queued tasks of one group (`RunOptions.group`).
+   */
+  pendingCountOf(group: string) {
+    return this.queue.groupQueue(group)?.length ?? 0;
+  }
+
+  /**
+   * Sum of the weights of running tasks (equals `activeCount` when all weights are 1).
+   */
+  get activeWeight() {
+    return this.used;
+  }
+
+  /**
+   * Current concurrency limit.
+   */
+  get limit() {
+    return this.concurrency;
+  }
+
+  /**
+   * Change the concurrency limit at runtime.
+   *
+   * - Raising the limit starts queued tasks immediately.
+   * - Lowering the limit never interrupts running tasks; new starts are held
+   *   until `activeCount` drops below the new limit.
+   * - A queued task heavier than the new limit is not stuck: it starts once nothing else runs,
+   *   and runs alone.
+   */
+  setLimit(limit: number) {
+    assertValidLimit(limit);
+    this.concurrency = limit;
+    if (this.dispatch()) this.emitIdleIfNeeded();
+  }
+
+  get isPaused() {
+    return this.paused;
+  }
+
+  /**
+   * Stop starting tasks. Running tasks finish normally; queued and new tasks wait
+   * (queue timeouts and aborts keep working) until `resume()`.
+   * While paused with tasks in the queue, the limiter is not idle.
+   */
+  pause() {
+    this.paused = true;
+  }
+
+  /**
+   * Resume starting tasks (queued tasks start immediately, up to the limit).
+   */
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    if (this.dispatch()) this.emitIdleIfNeeded();
+  }
+
+  get isClosed() {
+    return this.closed;
+  }
+
+  /**
+   * Stop accepting tasks and resolve once everything has settled.
+   *
+   * - New `run()` calls reject with LimiterClosedError.
+   * - `mode: 'drain'` (default) lets queued tasks run; `mode: 'reject'` rejects them right away.
+   * - Running tasks always finish. `timeoutMs` / `signal` bound the wait (see `onIdle()`).
+   */
+  async close(options: CloseOptions = {}): Promise<void> {
+    const { mode = 'drain', signal, timeoutMs } = options;
+
+    if (mode !== 'drain' && mode !== 'reject') {
+      throw new RangeError(`close mode must be 'drain' or 'reject'. Received: ${String(mode)}`);
+    }
+    assertValidTimeoutMs('timeoutMs', timeoutMs);
+
+    this.closed = true;
+    if (mode === 'reject') {
+      for (const cancel of Array.from(this.backoffs)) {
+        cancel(new LimiterClosedError('Limiter closed during retry backoff'));
+      }
+      this.rejectPending(new LimiterClosedError('Limiter closed while waiting in queue'));
+    }
+
+    await this.onIdle({ signal, timeoutMs });
+  }
+
+  /**
+   * `await using limiter = new Limiter(...)` closes the limiter (drain mode) at scope exit.
+   */
+  [asyncDisposeSymbol](): Promise<void> {
+    return this.close();
+  }
+
+  /**
+   * Snapshot of cumulative counters and wait/run latency percentiles.
+   * Returns undefined unless the limiter was created with `stats: true`.
+   */
+  stats(): LimiterStats | undefined {
+    if (!this.collector) return undefined;
+    return {
+      ...this.collector.snapshot(),
+      activeCount: this.active,
+      pendingCount: this.queue.length,
+      limit: this.concurrency,
+    };
+  }
+
+  /**
+   * Reset counters and histograms collected for `stats()`.
+   */
+  resetStats() {
+    this.collector?.reset();
+  }
+
+  /**
+   * Subscribe to a lifecycle event. Returns a function that unsubscribes.
+   * Errors thrown by listeners are ignored and never affect the limiter.
+   */
+  on<E extends keyof LimiterEvents>(event: E, listener: Listener<LimiterEvents[E]>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  off<E extends keyof LimiterEvents>(event: E, listener: Listener<LimiterEvents[E]>) {
+    this.events.off(event, listener);
+  }
+
   /**
    * Run a task within the concurrency limit.
    *
    * - Supports both sync and async functions.
-   * - `signal` and `queueTimeoutMs` apply only while waiting in the queue (not while running).
+   * - `queueTimeoutMs` applies only while waiting in the queue.
+   * - `signal` applies both while waiting and while running; `runTimeoutMs` applies while running.
+   *   The task receives an AbortSignal that is aborted on either and the call rejects right away,
+   *   but the slot is held until the task settles: a task that ignores its signal keeps it
+   *   (see `LimiterOptions.releaseOnCancel`).
+   * - Queued tasks start by `priority` (higher first), FIFO among equal priorities.
+   * - A task uses `weight` units of the limit. Queue order is strict: when the next task
+   *   does not fit yet, smaller tasks behind it wait too (no starvation of heavy tasks).
+   * - With `retry`, failed attempts release their slot, sleep for the backoff and queue again.
+   *   When the task is not retried any more, the call rejects with RetryError.
+   *   `{ attempts: 1 }` disables retries: the call rejects with the task's own error.
+   * - With `key`, concurrent calls share one execution (see `runShared()`).
+   * - `deadline` / `deadlineMs` bound the queue wait and the run together (retries included);
+   *   the task can read the time left from its context (`context.remainingMs()`).
    */
-  async run<T>(fn: () => T | Promise<T>, options: RunOptions = {}): Promise<T> {
+  async run<T>(fn: Task<T>, options: RunOptions = {}): Promise<T> {
+    if (options.key !== undefined) return this.runShared(fn, options.key, options);
+
     const signal = options.signal ?? this.defaultSignal;
     const queueTimeoutMs = options.queueTimeoutMs ?? this.defaultQueueTimeoutMs;
+    const runTimeoutMs = options.runTimeoutMs ?? this.defaultRunTimeoutMs;
+    const retry = options.retry ?? this.defaultRetry;
+    const { priority = 0, weight = 1, group } = options;
 
     assertValidTimeoutMs('queueTimeoutMs', queueTimeoutMs);
+    assertValidTimeoutMs('runTimeoutMs', runTimeoutMs);
+    assertValidPriority(priority);
+    assertValidWeight(weight, this.maxWeight());
+    assertValidRetry(retry);
+    assertValidGroup(group);
+    const deadline = resolveDeadline(options, this.clock);
 
-    if (signal?.aborted) throw new AbortError('Task aborted before start');
+    const args: RunArgs = {
+      signal,
+      queueTimeoutMs,
+      runTimeoutMs,
+      priority,
+      weight,
+      deadline,
+      group,
+    };
+    if (!retry || retry.attempts === 1) return this.runOnce(fn, args);
+    return this.runWithRetry(fn, args, retry);
+  }
+
+  /**
+   * Wait for a slot and hold it until `permit.release()`, for work that does not fit in one
+   * callback (e.g. a slot held across stream events).
+   *
+   * - Waits like `run()` (priority, weight, `queueTimeoutMs`, overflow, close) and emits the same
+   *   events; releasing the permit counts as a fulfilled run.
+   * - `signal` only cancels the wait: a held permit is never revoked,
+   *   and `runTimeoutMs` does not apply.
+   * - `release()` is idempotent; `using permit = await limiter.acquire()` releases at scope exit.
+   *   With `debug: true`, permits garbage-collected without release are reported as warnings.
+   */
+  async acquire(options: AcquireOptions = {}): Promise<Permit> {
+    const signal = options.signal ?? this.defaultSignal;
+    const queueTimeoutMs = options.queueTimeoutMs ?? this.defaultQueueTimeoutMs;
+    const { priority = 0, weight = 1, group } = options;
+
+    assertValidTimeoutMs('queueTimeoutMs', queueTimeoutMs);
+    assertValidPriority(priority);
+    assertValidWeight(weight, this.maxWeight());
+    assertValidGroup(group);
+
+    const waitMs = await this.admit({ signal, queueTimeoutMs, priority, weight, group });
+    const startedAt = this.clock.now();
+
+    return new LimiterPermit(
+      weight,
+      () => {
+        const runMs = this.clock.now() - startedAt;
+        this.events.emit('settle', { status: 'fulfilled', waitMs, runMs });
+        this.release(weight);
+      },
+      this.leaks
+    );
+  }
 
-    await this.acquire({ signal, queueTimeoutMs });
+  /**
+   * Run a task while holding a slot of every limiter in `limiters` (e.g. a global pool plus a per-service pool).
+   *
+   * - Slots are acquired one limiter at a time in creation order, whatever the order of `limiters`,
+   *   so two calls sharing limiters can never deadlock.
+   * - The slots acquired so far are **held while waiting for the next limiter**: create the most
+   *   contended limiter first, so nothing is held while waiting for it.
+   * - `queueTimeoutMs` covers the combined wait; `signal` and the deadline cover every wait and
+   *   the execution; `runTimeoutMs` covers the execution only.
+   *   Limiter defaults for these options do not apply.
+   * - When a wait fails, the slots acquired so far are released right away; only the limiter whose
+   *   wait failed reports it (`reject` event). `fn` runs once, reported by every limiter.
+   * - A cancelled task keeps its slots until it settles unless every limiter sets `releaseOnCancel`.
+   */
+  static async runAll<T>(
+    limiters: readonly Limiter[],
+    fn: Task<T>,
+    options: Omit<RunOptions, 'retry' | 'key' | 'ttlMs'> = {}
+  ): Promise<T> {
+    const ordered = Array.from(new Set(limiters)).sort((a, b) => a.id - b.id);
+    const { signal, queueTimeoutMs, runTimeoutMs, priority = 0, weight = 1, group } = options;
+
+    if (ordered.length === 0) throw new RangeError('runAll requires at least one limiter');
+    assertValidTimeoutMs('queueTimeoutMs', queueTimeoutMs);
+    assertValidTimeoutMs('runTimeoutMs', runTimeoutMs);
+    assertValidPriority(priority);
+    assertValidGroup(group);
+    for (const limiter of ordered) assertValidWeight(weight, limiter.maxWeight());
+    const clock = ordered[0].clock;
+    const deadline = resolveDeadline(options, clock);
+
+    const calledAt = clock.now();
+    const held: Limiter[] = [];
 
     try {
-      return await fn();
+      for (const limiter of ordered) {
+        await limiter.waitForSlot({
+          signal,
+          queueTimeoutMs:
+            queueTimeoutMs == null
+              ? undefined
+              : Math.max(0, queueTimeoutMs - (clock.now() - calledAt)),
+          priority,
+          weight,
+          deadline,
+          group,
+        });
+        held.push(limiter);
+      }
+    } catch (err) {
+      for (const limiter of held) limiter.release(weight);
+      throw err;
+    }
+
+    const waitMs = clock.now() - calledAt;
+    for (const limiter of ordered) limiter.emitStart(waitMs, priority, weight);
+    const startedAt = clock.now();
+
+    return startTask(fn, {
+      signal,
+      runTimeoutMs,
+      deadline,
+      clock,
+      releaseOnCancel: ordered.every((limiter) => limiter.releaseOnCancel),
+      onSettle: (outcome) => {
+        for (const limiter of ordered) limiter.emitSettle(outcome, waitMs, startedAt);
+      },
+      onRelease: () => {
+        for (const limiter of ordered) limiter.release(weight);
+      },
+    }).promise;
+  }
+
+  /**
+   * Single-flight: join the in-flight (or recently fulfilled) execution of `key`, or start it.
+   *
+   * - The shared run uses the options of the call that started it, but not its signal:
+   *   each caller's signal only ends that caller's wait (rejecting it with AbortError).
+   *   The shared task is aborted only when every caller has aborted.
+   * - A fulfilled result is kept for `ttlMs`; a rejection is never kept.
+   *   An unref'd timer drops it once expired (the next call of the key also checks the expiry).
+   */
+  private runShared<T>(fn: Task<T>, key: string, options: RunOptions): Promise<T> {
+    const { ttlMs = 0 } = options;
+    const signal = options.signal ?? this.defaultSignal;
+
+    assertValidTimeoutMs('ttlMs', ttlMs);
+    if (signal?.aborted) return Promise.reject(new AbortError('Task aborted before start'));
+
+    let flight = this.flights.get(key);
+    if (flight?.result) {
+      if (this.clock.now() < flight.result.expiresAt) {
+        return Promise.resolve(flight.result.value as T);
+      }
+      this.flights.delete(key);
+      flight = undefined;
+    }
+
+    if (!flight) {
+      const controller = new AbortController();
+      const started: Flight = {
+        promise: this.run(fn, {
+          ...options,
+          key: undefined,
+          ttlMs: undefined,
+          signal: controller.signal,
+        }),
+        controller,
+        callers: 0,
+      };
+      const forget = () => {
+        if (this.flights.get(key) === started) this.flights.delete(key);
+      };
+
+      started.promise.then((value) => {
+        if (ttlMs === 0) {
+          forget();
+          return;
+        }
+        started.result = { value, expiresAt: this.clock.now() + ttlMs };
+        // Drop the result even if its key is never called again; the timer does not keep the process alive.
+        const timer = this.clock.setTimeout(forget, ttlMs);
+        (timer as { unref?: () => void } | undefined)?.unref?.();
+      }, forget);
+
+      this.flights.set(key, started);
+      flight = started;
+    }
+
+    return this.joinFlight(key, flight, signal) as Promise<T>;
+  }
+
+  private joinFlight(key: string, flight: Flight, signal?: AbortSignal): Promise<unknown> {
+    flight.callers++;
+
+    return new Promise((resolve, reject) => {
+      let done = false;
+
+      const rmAbort = addAbortHandler(signal, () => {
+        if (done) return;
+        done = true;
+        reject(new AbortError('Task aborted while waiting for a shared run'));
+
+        if (--flight.callers === 0) {
+          if (this.flights.get(key) === flight) this.flights.delete(key);
+          flight.controller.abort(new AbortError('Every caller of the shared run aborted'));
+        }
+      });
+
+      flight.promise.then(
+        (value) => {
+          if (done) return;
+          done = true;
+          rmAbort?.();
+          resolve(value);
+        },
+        (error) => {
+          if (done) return;
+          done = true;
+          rmAbort?.();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * One attempt: wait for a slot, then execute. Retries skip the closed check,
+   * so a closing limiter (drain mode) still lets them finish.
+   */
+  private async runOnce<T>(fn: Task<T>, args: RunArgs, retrying = false): Promise<T> {
+    const { signal, runTimeoutMs, weight, deadline } = args;
+    const waitMs = await this.admit(args, retrying);
+    return this.execute(fn, { signal, runTimeoutMs, deadline, weight, waitMs });
+  }
+
+  /**
+   * Wait for a slot and emit `start` (or `reject`).
+   * Resolves with the wait time once the slot is held.
+   */
+  private async admit(args: WaitArgs, retrying = false): Promise<number> {
+    const queuedAt = this.clock.now();
+    await this.waitForSlot(args, retrying);
+
+    const waitMs = this.clock.now() - queuedAt;
+    this.emitStart(waitMs, args.priority ?? 0, args.weight ?? 1);
+    return waitMs;
+  }
+
+  /** Wait for a slot (emitting `reject` if the wait fails), without reporting the start. */
+  private async waitForSlot(args: WaitArgs, retrying = false): Promise<void> {
+    const { signal, deadline } = args;
+    const queuedAt = this.clock.now();
+
+    try {
+      if (this.closed && !retrying) throw new LimiterClosedError();
+      if (signal?.aborted) throw new AbortError('Task aborted before start');
+      if (isExpired(deadline, this.clock)) {
+        throw new DeadlineExceededError('Task deadline passed before start');
+      }
+      await this.acquireSlot(args);
+    } catch (err) {
+      const reason = rejectReason(err);
+      if (reason) {
+        this.events.emit('reject', { reason, error: err, waitMs: this.clock.now() - queuedAt });
+      }
+      throw err;
+    }
+  }
+
+  private emitStart(waitMs: number, priority: number, weight: number) {
+    this.events.emit('start', {
+      waitMs,
+      priority,
+      weight,
+      activeCount: this.active,
+      pendingCount: this.queue.length,
+    });
+  }
+
+  /**
+   * Retry loop. Rejections by the limiter itself (overflow, queue timeout, deadline, abort, close)
+   * are never retried and propagate as-is. A backoff that would end past the deadline gives up.
+   */
+  private async runWithRetry<T>(fn: Task<T>, args: RunArgs, retry: RetryOptions): Promise<T> {
+    this.retrying++;
+    try {
+      return await this.retryLoop(fn, args, retry);
     } finally {
-      this.release();
+      this.retrying--;
+      this.emitIdleIfNeeded();
+    }
+  }
+
+  private async retryLoop<T>(fn: Task<T>, args: RunArgs, retry: RetryOptions): Promise<T> {
+    const { attempts: maxAttempts = 3, shouldRetry, maxTotalMs } = retry;
+    const calledAt = this.clock.now();
+    const attempts: RetryAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.runOnce(fn, args, attempt > 1);
+      } catch (error) {
+        if (rejectReason(error) || args.signal?.aborted) throw error;
+
+        const record: RetryAttempt = { attempt, error };
+        attempts.push(record);
+
+        const delayMs = backoffDelay(retry, attempt);
+        if (
+          attempt >= maxAttempts ||
+          (maxTotalMs != null && this.clock.now() - calledAt + delayMs > maxTotalMs) ||
+          (args.deadline != null && this.clock.now() + delayMs >= args.deadline) ||
+          (shouldRetry && !shouldRetry(error, attempt))
+        ) {
+          throw new RetryError(attempts);
+        }
+        record.delayMs = delayMs;
+
+        const backoff = sleep(delayMs, args.signal, this.clock);
+        this.backoffs.add(backoff.cancel);
+
+        try {
+          await backoff.promise;
+        } finally {
+          this.backoffs.delete(backoff.cancel);
+        }
+      }
     }
   }
 
   /**
-   * Resolve when the limiter becomes idle (`activeCount === 0 && pendingCount === 0`).
+   * Map `input` through the limiter and resolve with the results in input order.
+   *
+   * - Arrays, iterables and async iterables are pulled lazily: at most `limit` items are in flight,
+   *   so a large source is never queued all at once (and `maxQueue` is respected).
+   * - `stopOnError` (default true) rejects with the first error and aborts the remaining items;
+   *   with `false` every item runs and the errors are reported as one AggregateError.
+   * - `signal` aborts the whole call; the other options apply to each item's run.
+   */
+  map<T, R>(input: MapInput<T>, mapper: Mapper<T, R>, options: MapOptions = {}): Promise<R[]> {
+    return bulkMap(this, input, mapper, {
+      ...options,
+      signal: options.signal ?? this.defaultSignal,
+    });
+  }
+
+  /**
+   * Like `map()`, but never rejects because of a task: resolves with one
+   * `PromiseSettledResult` per item, in input order.
+   */
+  mapSettled<T, R>(
+    input: MapInput<T>,
+    mapper: Mapper<T, R>,
+    options: BulkOptions = {}
+  ): Promise<PromiseSettledResult<R>[]> {
+    return bulkMapSettled(this, input, mapper, {
+      ...options,
+      signal: options.signal ?? this.defaultSignal,
+    });
+  }
+
+  /**
+   * Map `input` through the limiter and iterate the results as they become available.
+   *
+   * - Results are yielded in completion order, or in input order with `ordered: true`.
+   *   Running plus finished-but-unconsumed items never exceed `limit`, so a slow consumer
+   *   slows down pulling instead of growing a buffer.
+   * - Leaving the loop early (`break` / `return()`) stops pulling input and aborts queued
+   *   and running items. A task error is thrown from the iterator and stops the stream too.
+   */
+  stream<T, R>(
+    input: MapInput<T>,
+    mapper: Mapper<T, R>,
+    options: StreamOptions = {}
+  ): AsyncIterableIterator<R> {
+    return bulkStream(this, input, mapper, {
+      ...options,
+      signal: options.signal ?? this.defaultSignal,
+    });
+  }
+
+  /**
+   * Resolve when the limiter becomes idle (`activeCount === 0 && pendingCount === 0`,
+   * and no task is waiting for a retry).
    */
   async onIdle(options: IdleOptions = {}): Promise<void> {
     const { signal, timeoutMs } = options;
     assertValidTimeoutMs('timeoutMs', timeoutMs);
 
     if (signal?.aborted) throw new AbortError('Idle wait aborted');
-    if (this.active === 0 && this.queue.length === 0) return;
+    if (this.isIdle()) return;
 
-    await new Promise<void>((resolve, reject) => {
-      let done = false;
+    await waitOn(this.idleWaiters, options, this.clock, {
+      aborted: 'Idle wait aborted',
+      timeout: () => new IdleTimeoutError(),
+    });
+  }
 
-      const cleanups: Array<() => void> = [];
-      function cleanup() {
-        for (const fn of cleanups.splice(0)) fn();
-      }
+  /**
+   * Resolve when the queue is empty (`pendingCount === 0`). Running tasks may still be active,
+   * so a producer can enqueue the next batch without leaving slots unused.
+   */
+  onEmpty(options: IdleOptions = {}): Promise<void> {
+    return this.onPendingBelow(1, options);
+  }
 
-      function finish(err?: unknown) {
-        if (done) return;
-        done = true;
-        cleanup();
-        if (err) reject(err);
-        else resolve();
-      }
+  /**
+   * Resolve when fewer than `n` tasks are queued (`pendingCount < n`): backpressure for producers
+   * that pull from a stream or message queue. Same `signal` / `timeoutMs` options as `onIdle()`;
+   * a timeout rejects with `IdleTimeoutError`.
+   */
+  async onPendingBelow(n: number, options: IdleOptions = {}): Promise<void> {
+    const { signal, timeoutMs } = options;
+    assertValidPendingThreshold(n);
+    assertValidTimeoutMs('timeoutMs', timeoutMs);
 
-      const waiter = () => finish();
-      this.idleWaiters.add(waiter);
-      cleanups.push(() => this.idleWaiters.delete(waiter));
+    if (signal?.aborted) throw new AbortError('Pending wait aborted');
+    if (this.queue.length < n) return;
 
-      const rmAbort = addAbortHandler(signal, () => finish(new AbortError('Idle wait aborted')));
-      if (rmAbort) cleanups.push(rmAbort);
+    let waiters = this.pendingWaiters.get(n);
+    if (!waiters) {
+      waiters = new Set();
+      this.pendingWaiters.set(n, waiters);
+    }
 
-      if (timeoutMs != null) {
-        const t = setTimeout(() => finish(new IdleTimeoutError()), timeoutMs);
-        cleanups.push(() => clearTimeout(t));
+    try {
+      await waitOn(waiters, options, this.clock, {
+        aborted: 'Pending wait aborted',
+        timeout: () =>
+          new IdleTimeoutError(`Timeout: pendingCount did not drop below ${n} in time`),
+      });
+    } finally {
+      // Aborted or timed out: drop the set once its last waiter is gone.
+      if (waiters.size === 0 && this.pendingWaiters.get(n) === waiters) {
+        this.pendingWaiters.delete(n);
       }
+    }
+  }
 
-      this.emitIdleIfNeeded();
-    });
+  /**
+   * Alias of `onPendingBelow()` (p-queue naming).
+   */
+  onSizeLessThan(n: number, options: IdleOptions = {}): Promise<void> {
+    return this.onPendingBelow(n, options);
+  }
+
+  private isIdle() {
+    return this.active === 0 && this.queue.length === 0 && this.retrying === 0;
+  }
+
+  private notifyPendingBelow() {
+    for (const [n, waiters] of this.pendingWaiters) {
+      if (this.queue.length >= n) continue;
+      this.pendingWaiters.delete(n);
+      notifyAll(waiters);
+    }
   }
 
   private emitIdleIfNeeded() {
-    if (this.active !== 0 || this.queue.length !== 0) return;
-    for (const w of Array.from(this.idleWaiters)) w();
+    if (!this.isIdle()) return;
+    notifyAll(this.idleWaiters);
+    this.events.emit('idle', {});
   }
 
-  private async acquire(args: { signal?: AbortSignal; queueTimeoutMs?: number }): Promise<void> {
-    const { signal, queueTimeoutMs } = args;
+  private async acquireSlot(args: WaitArgs): Promise<void> {
+    const { signal, weight = 1 } = args;
 
     if (signal?.aborted) throw new AbortError('Task aborted before start');
 
-    if (this.active < this.limit) {
-      this.active++;
+    if (this.canStartNow(weight)) {
+      this.start(weight);
       return;
     }
 
-    if (this.queue.length >= this.maxQueue) {
+    // A full group makes room within itself first, which also frees room in the whole queue.
+    // A group with nothing queued has no queue yet (pending 0).
+    const { group } = args;
+    if (group !== undefined) {
+      const groupQueue = this.queue.groupQueue(group);
+      const pending = groupQueue?.length ?? 0;
+      if (pending >= this.groupMaxQueue && !(groupQueue && this.evictFor(args, groupQueue))) {
+        throw new QueueOverflowError(
+          `Queue overflow: group=${group}, pending=${pending}, groupMaxQueue=${this.groupMaxQueue}`
+        );
+      }
+    }
+
+    if (this.queue.length >= this.maxQueue && !this.evictFor(args, this.queue)) {
       throw new QueueOverflowError(
         `Queue overflow: pending=${this.queue.length}, maxQueue=${this.maxQueue}`
       );
     }
 
-    await this.waitForTurn({ signal, queueTimeoutMs });
+    // An eviction may have emptied the queue ahead of the incoming task.
+    if (this.canStartNow(weight)) {
+      this.start(weight);
+      return;
+    }
+
+    await this.waitForTurn(args);
+  }
+
+  /** Whether a task of `weight` can start without queueing (nothing queued ahead of it). */
+  private canStartNow(weight: number) {
+    return (
+      !this.paused && this.queue.length === 0 && this.fits(weight) && this.intervalAvailable()
+    );
+  }
+
+  /**
+   * Make room for an incoming task according to `overflowStrategy`, evicting from `scope`
+   * (the whole queue, or the queue of the incoming task's group).
+   * Returns false when the incoming task should be rejected instead.
+   */
+  private evictFor(args: WaitArgs, scope: Queue<QueueEntry>): boolean {
+    const victim = this.pickVictim(args, scope);
+    if (!victim) return false;
+
+    victim.remove();
+    this.queue.remove(victim);
+    victim.defer.reject(new QueueEvictedError());
+    // The evicted entry may have been blocking the head of the queue.
+    this.dispatch();
+    return true;
   }
 
-  private release() {
+  private pickVictim(args: WaitArgs, scope: Queue<QueueEntry>): QueueEntry | undefined {
+    const strategy = this.overflowStrategy;
+    const { priority = 0, weight = 1, deadline, group } = args;
+
+    if (strategy === 'reject-new') return undefined;
+    if (strategy === 'drop-oldest') return scope.oldest();
+
+    if (strategy === 'drop-lowest-priority') {
+      const last = scope.last();
+      const incoming = { priority, seq: this.seq, enqueuedAt: this.clock.now(), deadline };
+      return last && scope.before(incoming, last) ? last : undefined;
+    }
+
+    const t = this.clock.now();
+    const entries = Array.from(scope);
+    const infos: QueuedTaskInfo[] = entries.map((e) => ({
+      priority: e.priority,
+      weight: e.weight,
+      group: e.group,
+      waitMs: t - e.enqueuedAt,
+    }));
+
+    const picked = strategy(infos, { priority, weight, group, waitMs: 0 });
+    const index = picked ? infos.indexOf(picked) : -1;
+    return index === -1 ? undefined : entries[index];
+  }
+
+  private release(weight: number) {
+    this.active--;
+    this.used -= weight;
+    this.dispatch();
+    this.emitIdleIfNeeded();
+  }
+
+  /**
+   * Execute a task that already holds a slot.
+   * The slot is released exactly once: when the task settles (or on abort, run timeout or
+   * deadline with `releaseOnCancel`).
+   * (whichever comes first).
+   */
+  private execute<T>(
+    fn: Task<T>,
+    args: {
+      signal?: AbortSignal;
+      runTimeoutMs?: number;
+      deadline?: number;
+      weight: number;
+      waitMs: number;
+    }
+  ): Promise<T> {
+    const { signal, runTimeoutMs, deadline, weight, waitMs } = args;
+    const startedAt = this.clock.now();
+
+    return startTask(fn, {
+      signal,
+      runTimeoutMs,
+      deadline,
+      clock: this.clock,
+      releaseOnCancel: this.releaseOnCancel,
+      onSettle: (outcome) => this.emitSettle(outcome, waitMs, startedAt),
+      onRelease: () => this.release(weight),
+    }).promise;
+  }
+
+  private emitSettle<T>(outcome: TaskOutcome<T>, waitMs: number, startedAt: number) {
+    const runMs = this.clock.now() - startedAt;
+    this.events.emit(
+      'settle',
+      outcome.ok
+        ? { status: 'fulfilled', waitMs, runMs }
+        : { status: 'rejected', error: outcome.error, waitMs, runMs }
+    );
+  }
+
+  /**
+   * Start what fits (see `startQueued()`), then wake the `onPendingBelow()` waiters the queue
+   * has dropped under. Returns whether expired entries were rejected.
+   */
+  private dispatch(): boolean {
+    const expired = this.startQueued();
+    this.notifyPendingBelow();
+    return expired;
+  }
+
+  /**
+   * Hand free capacity to queued entries in queue order (skips entries that already settled).
+   * Stops at the first entry that does not fit (strict head-of-line order).
+   * Entries whose deadline has passed are rejected instead of started; returns whether any were,
+   * so callers that do not check for idle themselves can do so.
+   */
+  private startQueued(): boolean {
+    if (this.paused) return false;
+    let expired = false;
+
     for (;;) {
-      const next = this.shiftNext();
+      const next = this.peekNext();
+      if (!next) return expired;
 
-      if (!next) {
-        this.active--;
-        this.emitIdleIfNeeded();
-        return;
+      if (isExpired(next.deadline, this.clock)) {
+        this.queue.shift();
+        next.remove();
+        next.defer.reject(new DeadlineExceededError('Task deadline passed while waiting in queue'));
+        expired = true;
+        continue;
+      }
+
+      if (!this.fits(next.weight)) return expired;
+
+      if (!this.intervalAvailable()) {
+        this.scheduleIntervalTick();
+        return expired;
       }
 
+      this.queue.shift();
       next.remove();
 
       if (next.defer.resolve()) {
-        return;
+        this.start(next.weight);
       }
     }
   }
 
-  private shiftNext(): QueueEntry | undefined {
+  /**
+   * Heaviest weight a call may ask for. An adaptive limiter accepts up to `maxLimit`, so a call
+   * that fits once the limit recovers is queued (and runs alone via `fits()`) instead of rejected.
+   */
+  private maxWeight() {
+    return this.maxAdaptiveLimit ?? this.concurrency;
+  }
+
+  /**
+   * A task heavier than the limit (queued before `setLimit()` lowered it) fits an idle limiter,
+   * so it cannot block the queue for good.
+   */
+  private fits(weight: number) {
+    return this.used === 0 || this.used + weight <= this.concurrency;
+  }
+
+  private start(weight: number) {
+    this.active++;
+    this.used += weight;
+    this.intervalCount++;
+  }
+
+  /**
+   * Whether the current rate window (`intervalCap` starts per `intervalMs`) allows another start.
+   * A new window begins at the first check after the previous one has elapsed.
+   */
+  private intervalAvailable() {
+    if (this.intervalCap === Number.POSITIVE_INFINITY) return true;
+
+    const t = this.clock.now();
+    if (t - this.intervalStart >= this.intervalMs) {
+      this.intervalStart = t;
+      this.intervalCount = 0;
+    }
+
+    return this.intervalCount < this.intervalCap;
+  }
+
+  private scheduleIntervalTick() {
+    if (this.intervalTimer !== undefined) return;
+
+    const wait = Math.max(0, this.intervalStart + this.intervalMs - this.clock.now());
+    this.intervalTimer = this.clock.setTimeout(() => {
+      this.intervalTimer = undefined;
+      if (this.dispatch()) this.emitIdleIfNeeded();
+    }, wait);
+  }
+
+  private rejectPending(err: unknown) {
+    for (const entry of Array.from(this.queue)) {
+      entry.remove();
+      this.queue.remove(entry);
+      entry.defer.reject(err);
+    }
+    this.notifyPendingBelow();
+    this.emitIdleIfNeeded();
+  }
+
+  private peekNext(): QueueEntry | undefined {
     for (;;) {
-      const next = this.queue.shift();
+      const next = this.queue.peek();
       if (!next) return undefined;
-      if (next.removed) continue;
+      if (next.removed) {
+        this.queue.shift();
+        continue;
+      }
       return next;
     }
   }
 
-  private waitForTurn(args: { signal?: AbortSignal; queueTimeoutMs?: number }): Promise<void> {
-    const { signal, queueTimeoutMs } = args;
+  private waitForTurn(args: WaitArgs): Promise<void> {
+    const { signal, queueTimeoutMs, priority = 0, weight = 1, deadline, group } = args;
 
     return new Promise<void>((resolve, reject) => {
       if (signal?.aborted) {
@@ -224,46 +1140,45 @@ export class Limiter {
 
       let settled = false;
 
-      const entry = makeQueueEntry({
-        resolve: () => {
-          if (settled) return false;
-          settled = true;
-          resolve();
-          return true;
-        },
-        reject: (err) => {
-          if (settled) return false;
-          settled = true;
-          reject(err);
-          return true;
+      const entry = makeQueueEntry(
+        {
+          resolve: () => {
+            if (settled) return false;
+            settled = true;
+            resolve();
+            return true;
+          },
+          reject: (err) => {
+            if (settled) return false;
+            settled = true;
+            reject(err);
+            return true;
+          },
         },
-      });
+        { priority, weight, seq: this.seq++, enqueuedAt: this.clock.now(), deadline, group }
+      );
 
       const removeFromQueue = () => {
         if (entry.removed) return;
         entry.remove();
-        const idx = this.queue.indexOf(entry);
-        if (idx >= 0) this.queue.splice(idx, 1);
+        this.queue.remove(entry);
+        // The removed entry may have been blocking the head of the queue.
+        this.dispatch();
         this.emitIdleIfNeeded();
       };
 
-      const rmAbort = addAbortHandler(signal, () => {
-        removeFromQueue();
-        entry.defer.reject(new AbortError('Task aborted while waiting in queue'));
-      });
-      if (rmAbort) entry.cleanup.push(rmAbort);
-
-      if (queueTimeoutMs != null) {
-        const start = now();
-        const t = setTimeout(() => {
+      entry.cleanup.push(
+        ...armQueueWait({ signal, queueTimeoutMs, deadline }, this.clock, (err) => {
           removeFromQueue();
-          entry.defer.reject(new QueueTimeoutError(`Task waited ${now() - start}ms in queue`));
-        }, queueTimeoutMs);
-
-        entry.cleanup.push(() => clearTimeout(t));
-      }
+          entry.defer.reject(err);
+        })
+      );
 
       this.queue.push(entry);
+      this.events.emit('enqueue', { priority, weight, pendingCount: this.queue.length });
+
+      // Queued because the rate window is used up: nothing may be running to dispatch on release.
+      if (!this.intervalAvailable()) this.scheduleIntervalTick();
     });
   }
 }
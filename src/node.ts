@@ -0,0 +1,219 @@
+/**
+ * @file node.ts
+ * @description Node.js-only exports (`@selentia/async-limiter/node`): the file-backed lease store
+ */
+
+import { randomUUID } from 'node:crypto';
+import { link, open, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import type { FileStoreOptions, LeaseRequest, LimiterStore } from './types';
+import { pruneLeases, renewLease, takeLease, type Lease, type LeaseTable } from './store';
+
+export type { FileStoreOptions, LeaseRequest, LimiterStore } from './types';
+
+/** Base delay between attempts to take the lock file (jittered up to twice as long). */
+const LOCK_RETRY_MS = 5;
+
+type FileState = Map<string, LeaseTable>;
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+function errorCode(err: unknown) {
+  return (err as { code?: unknown } | null)?.code;
+}
+
+function parseState(text: string): FileState {
+  const state: FileState = new Map();
+  if (!text) return state;
+
+  const data = JSON.parse(text) as Record<string, Record<string, Lease>>;
+  for (const [key, leases] of Object.entries(data)) {
+    state.set(key, new Map(Object.entries(leases)));
+  }
+  return state;
+}
+
+function formatState(state: FileState, now: number) {
+  const data: Record<string, Record<string, Lease>> = {};
+  for (const [key, leases] of state) {
+    pruneLeases(leases, now);
+    if (leases.size > 0) data[key] = Object.fromEntries(leases);
+  }
+  return JSON.stringify(data);
+}
+
+/**
+ * Leases in a JSON file, for `DistributedLimiter`s in several processes on one host.
+ *
+ * - Every call reads, updates and rewrites the file while holding `<path>.lock`, created with
+ *   O_EXCL and holding a unique owner token; the file is replaced atomically (write to a temp
+ *   file, then rename).
+ * - A process that crashes while holding the lock leaves the lock file behind: it is removed once
+ *   older than `staleLockMs`. Leases of a crashed process expire after their TTL.
+ * - Removing a stale lock is best-effort, not atomic: racing contenders can remove a live lock.
+ *   The owner checks its token before replacing the file and only removes its own lock, so an
+ *   update whose lock was lost is retried instead of overwriting another process's update.
+ * - The directory must be on a local file system (O_EXCL is unreliable on some network mounts).
+ * - Lease times are wall-clock (`Date.now()`), shared with other processes: a limiter's `clock`
+ *   option does not apply to them.
+ */
+export class FileStore implements LimiterStore {
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+
+  constructor(readonly path: string, options: FileStoreOptions = {}) {
+    const { lockTimeoutMs = 5000, staleLockMs = 10_000 } = options;
+
+    if (typeof path !== 'string' || path === '') {
+      throw new RangeError(`FileStore path must be a non-empty string. Received: ${path}`);
+    }
+    for (const [name, ms] of [
+      ['lockTimeoutMs', lockTimeoutMs],
+      ['staleLockMs', staleLockMs],
+    ] as const) {
+      if (!Number.isFinite(ms) || ms <= 0) {
+        throw new RangeError(`FileStore ${name} must be a positive finite number. Received: ${ms}`);
+      }
+    }
+
+    this.lockPath = `${path}.lock`;
+    this.lockTimeoutMs = lockTimeoutMs;
+    this.staleLockMs = staleLockMs;
+  }
+
+  acquire(request: LeaseRequest): Promise<string | null> {
+    return this.update((state, now) => {
+      let leases = state.get(request.key);
+      if (!leases) {
+        leases = new Map();
+        state.set(request.key, leases);
+      }
+      return takeLease(leases, request, now);
+    });
+  }
+
+  renew(key: string, leaseId: string, ttlMs: number): Promise<boolean> {
+    return this.update((state, now) => {
+      const leases = state.get(key);
+      return leases ? renewLease(leases, leaseId, ttlMs, now) : false;
+    });
+  }
+
+  release(key: string, leaseId: string): Promise<void> {
+    return this.update((state) => {
+      state.get(key)?.delete(leaseId);
+    });
+  }
+
+  private async update<R>(fn: (state: FileState, now: number) => R): Promise<R> {
+    for (;;) {
+      const token = await this.lock();
+      const tmp = `${this.path}.${token}.tmp`;
+      try {
+        const state = parseState(await this.read());
+        const now = Date.now();
+        const result = fn(state, now);
+
+        await writeFile(tmp, formatState(state, now));
+        if (await this.ownsLock(token)) {
+          await rename(tmp, this.path);
+          return result;
+        }
+      } finally {
+        await rm(tmp, { force: true });
+        if (await this.ownsLock(token)) await rm(this.lockPath, { force: true });
+      }
+      // The lock was taken over as stale while we held it: start again on the current file.
+    }
+  }
+
+  private async read() {
+    try {
+      return await readFile(this.path, 'utf8');
+    } catch (err) {
+      if (errorCode(err) === 'ENOENT') return '';
+      throw err;
+    }
+  }
+
+  /** Take the lock file and return the owner token written into it. */
+  private async lock(): Promise<string> {
+    const start = Date.now();
+    const token = randomUUID();
+
+    for (;;) {
+      try {
+        const handle = await open(this.lockPath, 'wx');
+        try {
+          await handle.writeFile(token);
+        } finally {
+          await handle.close();
+        }
+        return token;
+      } catch (err) {
+        if (errorCode(err) !== 'EEXIST') throw err;
+      }
+
+      await this.removeStaleLock();
+      if (Date.now() - start >= this.lockTimeoutMs) {
+        throw new Error(`FileStore: timed out after ${this.lockTimeoutMs}ms on ${this.lockPath}`);
+      }
+      await sleep(LOCK_RETRY_MS * (1 + Math.random()));
+    }
+  }
+
+  /** Owner token of the current lock file ('' when there is none). */
+  private async readLock() {
+    try {
+      return await readFile(this.lockPath, 'utf8');
+    } catch (err) {
+      if (errorCode(err) === 'ENOENT') return '';
+      throw err;
+    }
+  }
+
+  private async ownsLock(token: string) {
+    return (await this.readLock()) === token;
+  }
+
+  /**
+   * Move a stale lock aside with a rename, so only one contender removes it. If the lock was
+   * replaced in the meantime (its token changed), the fresh lock was moved by mistake: it is
+   * linked back when the lock path is still free. Otherwise its owner finds a foreign token
+   * before committing and retries (see `update()`).
+   */
+  private async removeStaleLock() {
+    let mtimeMs: number;
+    let token: string;
+    try {
+      ({ mtimeMs } = await stat(this.lockPath));
+      token = await readFile(this.lockPath, 'utf8');
+    } catch (err) {
+      // Released in the meantime.
+      if (errorCode(err) === 'ENOENT') return;
+      throw err;
+    }
+    if (Date.now() - mtimeMs <= this.staleLockMs) return;
+
+    const aside = `${this.lockPath}.${randomUUID()}.stale`;
+    try {
+      await rename(this.lockPath, aside);
+    } catch (err) {
+      // Removed by another contender.
+      if (errorCode(err) === 'ENOENT') return;
+      throw err;
+    }
+
+    try {
+      if ((await readFile(aside, 'utf8')) !== token) {
+        await link(aside, this.lockPath).catch((err: unknown) => {
+          if (errorCode(err) !== 'EEXIST') throw err;
+        });
+      }
+    } finally {
+      await rm(aside, { force: true });
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * @file permit.ts
+ * @description Slot permits returned by Limiter#acquire() and their leak detection (internal)
+ */
+
+import type { Permit } from './types';
+import { asyncDisposeSymbol, disposeSymbol } from './symbols';
+
+function warn(message: string) {
+  const proc = (globalThis as { process?: { emitWarning?: (msg: string, type: string) => void } })
+    .process;
+  if (typeof proc?.emitWarning === 'function') proc.emitWarning(message, 'AsyncLimiterWarning');
+  else console.warn(message);
+}
+
+/**
+ * Warns about permits that are garbage-collected while still held (their slot is never returned).
+ * Only created with `debug: true`: capturing a stack per acquire is not free.
+ */
+export class LeakDetector {
+  private readonly registry = new FinalizationRegistry<{ weight: number; stack?: string }>(
+    ({ weight, stack }) => {
+      warn(
+        `A limiter permit (weight ${weight}) was garbage-collected without release(); ` +
+          `its slot is never returned.${stack ? `\nAcquired at: ${stack}` : ''}`
+      );
+    }
+  );
+
+  track(permit: Permit) {
+    const stack = new Error().stack?.split('\n').slice(2).join('\n');
+    this.registry.register(permit, { weight: permit.weight, stack }, permit);
+  }
+
+  untrack(permit: Permit) {
+    this.registry.unregister(permit);
+  }
+}
+
+export class LimiterPermit implements Permit {
+  private done = false;
+
+  constructor(
+    readonly weight: number,
+    private readonly onRelease: () => void,
+    private readonly leaks?: LeakDetector
+  ) {
+    leaks?.track(this);
+  }
+
+  get released() {
+    return this.done;
+  }
+
+  release() {
+    if (this.done) return;
+    this.done = true;
+    this.leaks?.untrack(this);
+    this.onRelease();
+  }
+
+  [disposeSymbol]() {
+    this.release();
+  }
+
+  async [asyncDisposeSymbol]() {
+    this.release();
+  }
+}
@@ -0,0 +1,420 @@
+/**
+ * @file queue.ts
+ * @description Priority, deadline and per-group fair queues used by the limiter (internal)
+ */
+
+export type QueueItem = {
+  priority: number;
+  seq: number;
+  enqueuedAt: number;
+  /** Absolute deadline (epoch ms), if any. */
+  deadline?: number;
+  /** Fair-queuing group (undefined: the ungrouped tasks, which share one group). */
+  group?: string;
+  /** Units of the limit the entry occupies once started (default 1). */
+  weight?: number;
+  /** Link node while the item is queued (owned by TaskQueue). */
+  queueNode?: unknown;
+};
+
+/**
+ * Operations the limiter needs from a queue, whatever its ordering.
+ */
+export interface Queue<T extends QueueItem> extends Iterable<T> {
+  readonly length: number;
+  push(item: T): void;
+  peek(): T | undefined;
+  shift(): T | undefined;
+  remove(item: T): boolean;
+  /** The entry enqueued first (smallest `seq`). */
+  oldest(): T | undefined;
+  /** The entry that would be dequeued last. */
+  last(): T | undefined;
+  /** Whether `a` is dequeued before `b`. */
+  before(a: QueueItem, b: QueueItem): boolean;
+}
+
+type Node<T> = {
+  item: T;
+  prev: Node<T> | null;
+  next: Node<T> | null;
+  bucket: Bucket<T>;
+};
+
+type Bucket<T> = {
+  priority: number;
+  head: Node<T> | null;
+  tail: Node<T> | null;
+};
+
+/**
+ * Entries are grouped into one FIFO bucket (doubly linked list) per priority value.
+ * push / shift / remove are O(1) in the number of queued entries
+ * (selecting the next entry only compares bucket heads, i.e. O(distinct priorities)).
+ *
+ * Aging: an entry's effective priority grows by 1 for every `agingMs` it waits:
+ *   effective = priority + (now - enqueuedAt) / agingMs
+ * Since every entry ages at the same rate, comparing two entries at any instant reduces to
+ * comparing `priority - enqueuedAt / agingMs`, which is fixed at enqueue time.
+ * Within a bucket that rank is non-increasing, so only bucket heads need to be compared.
+ */
+export class TaskQueue<T extends QueueItem> implements Queue<T> {
+  private buckets = new Map<number, Bucket<T>>();
+  private size = 0;
+
+  constructor(private readonly agingMs: number) {}
+
+  get length() {
+    return this.size;
+  }
+
+  push(item: T) {
+    let bucket = this.buckets.get(item.priority);
+    if (!bucket) {
+      bucket = { priority: item.priority, head: null, tail: null };
+      this.buckets.set(item.priority, bucket);
+    }
+
+    const node: Node<T> = { item, prev: bucket.tail, next: null, bucket };
+    if (bucket.tail) bucket.tail.next = node;
+    else bucket.head = node;
+    bucket.tail = node;
+
+    item.queueNode = node;
+    this.size++;
+  }
+
+  peek(): T | undefined {
+    return this.bestBucket()?.head?.item;
+  }
+
+  /**
+   * The entry enqueued first (smallest `seq`).
+   */
+  oldest(): T | undefined {
+    let oldest: T | undefined;
+    for (const bucket of this.buckets.values()) {
+      const item = bucket.head!.item;
+      if (!oldest || item.seq < oldest.seq) oldest = item;
+    }
+    return oldest;
+  }
+
+  /**
+   * The entry that would be dequeued last (bucket tails hold the lowest rank of each bucket).
+   */
+  last(): T | undefined {
+    let last: T | undefined;
+    for (const bucket of this.buckets.values()) {
+      const item = bucket.tail!.item;
+      if (!last || this.before(last, item)) last = item;
+    }
+    return last;
+  }
+
+  shift(): T | undefined {
+    const best = this.bestBucket();
+    if (!best) return undefined;
+
+    const item = best.head!.item;
+    this.unlink(best.head!);
+    return item;
+  }
+
+  remove(item: T): boolean {
+    const node = item.queueNode as Node<T> | undefined;
+    if (!node) return false;
+
+    this.unlink(node);
+    return true;
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const bucket of this.buckets.values()) {
+      for (let node = bucket.head; node; node = node.next) yield node.item;
+    }
+  }
+
+  private unlink(node: Node<T>) {
+    const { bucket } = node;
+
+    if (node.prev) node.prev.next = node.next;
+    else bucket.head = node.next;
+    if (node.next) node.next.prev = node.prev;
+    else bucket.tail = node.prev;
+
+    if (!bucket.head) this.buckets.delete(bucket.priority);
+
+    node.item.queueNode = undefined;
+    this.size--;
+  }
+
+  private bestBucket(): Bucket<T> | undefined {
+    let best: Bucket<T> | undefined;
+
+    for (const bucket of this.buckets.values()) {
+      if (!best || this.before(bucket.head!.item, best.head!.item)) best = bucket;
+    }
+
+    return best;
+  }
+
+  private rank(item: QueueItem) {
+    return this.agingMs === Number.POSITIVE_INFINITY
+      ? item.priority
+      : item.priority - item.enqueuedAt / this.agingMs;
+  }
+
+  /**
+   * Whether `a` is dequeued before `b`.
+   */
+  before(a: QueueItem, b: QueueItem) {
+    const ra = this.rank(a);
+    const rb = this.rank(b);
+    if (ra !== rb) return ra > rb;
+    return a.seq < b.seq;
+  }
+}
+
+/**
+ * Earliest-deadline-first queue (binary min-heap).
+ * Order: earliest `deadline` first (entries without one go last), then higher priority, then FIFO.
+ * push / shift / remove are O(log n); `oldest()` and `last()` scan every entry.
+ */
+export class DeadlineQueue<T extends QueueItem> implements Queue<T> {
+  private heap: T[] = [];
+
+  get length() {
+    return this.heap.length;
+  }
+
+  push(item: T) {
+    item.queueNode = this.heap.length;
+    this.heap.push(item);
+    this.up(this.heap.length - 1);
+  }
+
+  peek(): T | undefined {
+    return this.heap[0];
+  }
+
+  oldest(): T | undefined {
+    let oldest: T | undefined;
+    for (const item of this.heap) {
+      if (!oldest || item.seq < oldest.seq) oldest = item;
+    }
+    return oldest;
+  }
+
+  last(): T | undefined {
+    let last: T | undefined;
+    for (const item of this.heap) {
+      if (!last || this.before(last, item)) last = item;
+    }
+    return last;
+  }
+
+  shift(): T | undefined {
+    const top = this.heap[0];
+    if (top) this.removeAt(0);
+    return top;
+  }
+
+  remove(item: T): boolean {
+    const index = item.queueNode as number | undefined;
+    if (index === undefined) return false;
+
+    this.removeAt(index);
+    return true;
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    yield* this.heap;
+  }
+
+  before(a: QueueItem, b: QueueItem) {
+    const da = a.deadline ?? Number.POSITIVE_INFINITY;
+    const db = b.deadline ?? Number.POSITIVE_INFINITY;
+    if (da !== db) return da < db;
+    if (a.priority !== b.priority) return a.priority > b.priority;
+    return a.seq < b.seq;
+  }
+
+  private removeAt(index: number) {
+    const item = this.heap[index];
+    const moved = this.heap.pop()!;
+    item.queueNode = undefined;
+    if (moved === item) return;
+
+    this.heap[index] = moved;
+    moved.queueNode = index;
+    this.up(index);
+    this.down(moved.queueNode as number);
+  }
+
+  private up(index: number) {
+    const item = this.heap[index];
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.before(item, this.heap[parent])) break;
+      this.place(this.heap[parent], index);
+      index = parent;
+    }
+    this.place(item, index);
+  }
+
+  private down(index: number) {
+    const item = this.heap[index];
+    const n = this.heap.length;
+    for (;;) {
+      let child = 2 * index + 1;
+      if (child >= n) break;
+      if (child + 1 < n && this.before(this.heap[child + 1], this.heap[child])) child++;
+      if (!this.before(this.heap[child], item)) break;
+      this.place(this.heap[child], index);
+      index = child;
+    }
+    this.place(item, index);
+  }
+
+  private place(item: T, index: number) {
+    this.heap[index] = item;
+    item.queueNode = index;
+  }
+}
+
+type GroupState<T extends QueueItem> = {
+  queue: Queue<T>;
+  /** Stride-scheduling pass: grows by `weight / share` with every entry the group starts. */
+  pass: number;
+  share: number;
+};
+
+/**
+ * Fair queuing between groups: one inner queue per group (ordered as usual), and the next entry
+ * comes from the group with the lowest pass. With equal shares this is round-robin weighted by
+ * task weight, so a group with 10k queued entries delays another group's entry by at most one turn.
+ *
+ * A group that becomes active starts at the pass of the group served last: idle groups do not
+ * build up credit. Selecting a group is O(active groups).
+ */
+export class FairQueue<T extends QueueItem> implements Queue<T> {
+  private groups = new Map<string | undefined, GroupState<T>>();
+  private size = 0;
+  private vtime = 0;
+  /** Group selected by `nextGroup()` (undefined when it must be recomputed). */
+  private next?: GroupState<T>;
+  private readonly shares: Map<string, number>;
+  /** Empty inner queue, only used to compare entries of different groups. */
+  private readonly order: Queue<T>;
+
+  constructor(
+    private readonly createQueue: () => Queue<T>,
+    shares: Record<string, number> = {}
+  ) {
+    this.shares = new Map(Object.entries(shares));
+    this.order = createQueue();
+  }
+
+  get length() {
+    return this.size;
+  }
+
+  /**
+   * Queue of one group (undefined while the group has no queued entry).
+   */
+  groupQueue(group: string | undefined): Queue<T> | undefined {
+    return this.groups.get(group)?.queue;
+  }
+
+  push(item: T) {
+    let state = this.groups.get(item.group);
+    if (!state) {
+      const share = item.group === undefined ? 1 : (this.shares.get(item.group) ?? 1);
+      state = { queue: this.createQueue(), pass: this.vtime, share };
+      this.groups.set(item.group, state);
+      this.next = undefined;
+    } else if (state === this.next) {
+      // The selected group's head may change (e.g. a higher priority entry).
+      this.next = undefined;
+    }
+
+    state.queue.push(item);
+    this.size++;
+  }
+
+  peek(): T | undefined {
+    return this.nextGroup()?.queue.peek();
+  }
+
+  oldest(): T | undefined {
+    let oldest: T | undefined;
+    for (const { queue } of this.groups.values()) {
+      const item = queue.oldest()!;
+      if (!oldest || item.seq < oldest.seq) oldest = item;
+    }
+    return oldest;
+  }
+
+  /**
+   * The entry that would be dequeued last within its group, compared across groups
+   * by the inner order (e.g. lowest priority).
+   */
+  last(): T | undefined {
+    let last: T | undefined;
+    for (const { queue } of this.groups.values()) {
+      const item = queue.last()!;
+      if (!last || this.before(last, item)) last = item;
+    }
+    return last;
+  }
+
+  shift(): T | undefined {
+    const state = this.nextGroup();
+    if (!state) return undefined;
+
+    const item = state.queue.shift()!;
+    this.vtime = state.pass;
+    state.pass += (item.weight ?? 1) / state.share;
+    this.next = undefined;
+    this.size--;
+    if (state.queue.length === 0) this.groups.delete(item.group);
+    return item;
+  }
+
+  remove(item: T): boolean {
+    const state = this.groups.get(item.group);
+    if (!state || !state.queue.remove(item)) return false;
+
+    this.next = undefined;
+    this.size--;
+    if (state.queue.length === 0) this.groups.delete(item.group);
+    return true;
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const { queue } of this.groups.values()) yield* queue;
+  }
+
+  before(a: QueueItem, b: QueueItem) {
+    return this.order.before(a, b);
+  }
+
+  private nextGroup(): GroupState<T> | undefined {
+    if (this.next) return this.next;
+    let best: GroupState<T> | undefined;
+
+    for (const state of this.groups.values()) {
+      if (
+        !best ||
+        state.pass < best.pass ||
+        (state.pass === best.pass && state.queue.peek()!.seq < best.queue.peek()!.seq)
+      ) {
+        best = state;
+      }
+    }
+
+    this.next = best;
+    return best;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * @file retry.ts
+ * @description Retry backoff helpers (internal)
+ */
+
+import type { Clock, RetryOptions } from './types';
+import { AbortError } from './errors';
+import { addAbortHandler } from './waiters';
+
+/**
+ * Backoff (ms) after the failed `attempt` (1-based): exponential, capped, with optional full jitter.
+ */
+export function backoffDelay(retry: RetryOptions, attempt: number): number {
+  const { minDelayMs = 100, maxDelayMs = 30_000, factor = 2, jitter = true } = retry;
+  const delay = Math.min(maxDelayMs, minDelayMs * factor ** (attempt - 1));
+  return jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Sleep for `ms`; rejects with AbortError when `signal` aborts, or with the given error on `cancel()`.
+ */
+export function sleep(
+  ms: number,
+  signal: AbortSignal | undefined,
+  clock: Clock
+): { promise: Promise<void>; cancel: (err: unknown) => void } {
+  let cancel!: (err: unknown) => void;
+
+  const promise = new Promise<void>((resolve, reject) => {
+    let done = false;
+
+    const finish = (err?: unknown) => {
+      if (done) return;
+      done = true;
+      clock.clearTimeout(t);
+      rmAbort?.();
+      if (err) reject(err);
+      else resolve();
+    };
+
+    const t = clock.setTimeout(() => finish(), ms);
+    const rmAbort = addAbortHandler(signal, () =>
+      finish(new AbortError('Task aborted during retry backoff'))
+    );
+    cancel = finish;
+  });
+
+  return { promise, cancel };
+}
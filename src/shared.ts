@@ -0,0 +1,301 @@
+/**
+ * @file shared.ts
+ * @description Concurrency limit shared between threads through a SharedArrayBuffer
+ */
+
+import type {
+  AcquireOptions,
+  Clock,
+  Permit,
+  SharedLimiterOptions,
+  SharedRunOptions,
+  Task,
+} from './types';
+import { AbortError, QueueOverflowError } from './errors';
+import {
+  assertValidAgingMs,
+  assertValidClock,
+  assertValidLimit,
+  assertValidMaxQueue,
+  assertValidPriority,
+  assertValidTimeoutMs,
+  assertValidWeight,
+} from './assert';
+import { systemClock } from './clock';
+import { startTask } from './execute';
+import { LimiterPermit } from './permit';
+import { TaskQueue } from './queue';
+import { waitInQueue, type QueueWaiter } from './waiters';
+
+/** Int32 slots of the shared state. */
+const LIMIT = 0;
+const USED = 1;
+/** Bumped on every release / limit change; threads wait on it. */
+const SEQ = 2;
+const STATE_BYTES = 3 * Int32Array.BYTES_PER_ELEMENT;
+
+/**
+ * A pending `Atomics.waitAsync()` does not keep Node's event loop alive, so a ref'd timer runs
+ * alongside it while tasks wait. It also bounds the cost of a missed notification.
+ * The wait itself times out after the same delay, so re-arming never piles up pending waits.
+ */
+const WAKE_MS = 1000;
+/** Polling interval on runtimes without `Atomics.waitAsync()`. */
+const POLL_MS = 10;
+
+type WaitAsyncResult =
+  | { async: false; value: 'not-equal' | 'timed-out' }
+  | { async: true; value: Promise<'ok' | 'timed-out'> };
+
+const waitAsync = (
+  Atomics as unknown as {
+    waitAsync?: (
+      view: Int32Array,
+      index: number,
+      value: number,
+      timeoutMs?: number
+    ) => WaitAsyncResult;
+  }
+).waitAsync;
+
+function assertValidSharedWeight(weight: number, limit: number) {
+  assertValidWeight(weight, limit);
+  if (!Number.isInteger(weight)) {
+    throw new RangeError(`weight must be an integer for a SharedLimiter. Received: ${weight}`);
+  }
+}
+
+function assertValidSharedLimit(limit: number) {
+  assertValidLimit(limit);
+  if (!Number.isInteger(limit) || limit > 0x7fffffff) {
+    throw new RangeError(`SharedLimiter limit must be a 32-bit integer. Received: ${limit}`);
+  }
+}
+
+/**
+ * One concurrency limit enforced across threads. Create it once, pass `buffer` to each worker
+ * (e.g. via `workerData` or `postMessage`) and open a handle there with `new SharedLimiter(buffer)`.
+ *
+ * - Slots are counted in shared memory with Atomics, so the limit holds across every handle.
+ * - Each handle queues its own waiters (priority, weight, `maxQueue`); between threads, freed slots
+ *   go to whichever handle claims them first (no cross-thread FIFO).
+ * - A thread that exits while holding slots never returns them: release before exiting.
+ */
+export class SharedLimiter {
+  readonly buffer: SharedArrayBuffer;
+
+  private readonly state: Int32Array;
+  private readonly queue: TaskQueue<QueueWaiter<void>>;
+  private seq = 0;
+  private watching = false;
+
+  private readonly maxQueue: number;
+  private readonly defaultQueueTimeoutMs?: number;
+  private readonly defaultRunTimeoutMs?: number;
+  private readonly defaultSignal?: AbortSignal;
+  private readonly releaseOnCancel: boolean;
+  private readonly clock: Clock;
+
+  constructor(limitOrBuffer: number | SharedArrayBuffer, options: SharedLimiterOptions = {}) {
+    if (typeof SharedArrayBuffer === 'undefined') {
+      throw new Error(
+        'SharedArrayBuffer is not available (browsers require cross-origin isolation)'
+      );
+    }
+
+    const {
+      maxQueue = Number.POSITIVE_INFINITY,
+      queueTimeoutMs = undefined,
+      runTimeoutMs = undefined,
+      signal = undefined,
+      priorityAgingMs = Number.POSITIVE_INFINITY,
+      releaseOnCancel = false,
+      clock = systemClock,
+    } = options;
+
+    assertValidMaxQueue(maxQueue);
+    assertValidTimeoutMs('queueTimeoutMs', queueTimeoutMs);
+    assertValidTimeoutMs('runTimeoutMs', runTimeoutMs);
+    assertValidAgingMs(priorityAgingMs);
+    assertValidClock(clock);
+
+    if (typeof limitOrBuffer === 'number') {
+      assertValidSharedLimit(limitOrBuffer);
+      this.buffer = new SharedArrayBuffer(STATE_BYTES);
+      this.state = new Int32Array(this.buffer);
+      Atomics.store(this.state, LIMIT, limitOrBuffer);
+    } else {
+      if (
+        !(limitOrBuffer instanceof SharedArrayBuffer) ||
+        limitOrBuffer.byteLength < STATE_BYTES
+      ) {
+        throw new RangeError(
+          'SharedLimiter expects a limit or the buffer of another SharedLimiter'
+        );
+      }
+      this.buffer = limitOrBuffer;
+      this.state = new Int32Array(this.buffer, 0, 3);
+    }
+
+    this.maxQueue = maxQueue;
+    this.defaultQueueTimeoutMs = queueTimeoutMs;
+    this.defaultRunTimeoutMs = runTimeoutMs;
+    this.defaultSignal = signal;
+    this.releaseOnCancel = releaseOnCancel;
+    this.queue = new TaskQueue(priorityAgingMs);
+    this.clock = clock;
+  }
+
+  /**
+   * Current limit (shared by every handle).
+   */
+  get limit() {
+    return Atomics.load(this.state, LIMIT);
+  }
+
+  /**
+   * Slots in use across every thread (sum of weights).
+   */
+  get activeWeight() {
+    return Atomics.load(this.state, USED);
+  }
+
+  /**
+   * Tasks waiting in this handle's queue (other threads' waiters are not included).
+   */
+  get pendingCount() {
+    return this.queue.length;
+  }
+
+  /**
+   * Change the limit for every handle. Lowering it never interrupts running tasks; a queued task
+   * heavier than the new limit starts once no slot is in use, and runs alone.
+   */
+  setLimit(limit: number) {
+    assertValidSharedLimit(limit);
+    Atomics.store(this.state, LIMIT, limit);
+    this.wakeAll();
+  }
+
+  /**
+   * Wait for a slot and hold it until `permit.release()` (see `Limiter#acquire()`).
+   */
+  async acquire(options: Omit<AcquireOptions, 'group'> = {}): Promise<Permit> {
+    const signal = options.signal ?? this.defaultSignal;
+    const queueTimeoutMs = options.queueTimeoutMs ?? this.defaultQueueTimeoutMs;
+    const { priority = 0, weight = 1 } = options;
+
+    assertValidTimeoutMs('queueTimeoutMs', queueTimeoutMs);
+    assertValidPriority(priority);
+    assertValidSharedWeight(weight, this.limit);
+
+    await this.waitForSlot(signal, queueTimeoutMs, priority, weight);
+    return new LimiterPermit(weight, () => this.release(weight));
+  }
+
+  /**
+   * Run a task within the shared limit. Same semantics as `Limiter#run()` for `signal`,
+   * `queueTimeoutMs`, `runTimeoutMs`, `priority` and `weight`; the slot is released on settle,
+   * abort or run timeout.
+   */
+  async run<T>(fn: Task<T>, options: SharedRunOptions = {}): Promise<T> {
+    const signal = options.signal ?? this.defaultSignal;
+    const runTimeoutMs = options.runTimeoutMs ?? this.defaultRunTimeoutMs;
+    assertValidTimeoutMs('runTimeoutMs', runTimeoutMs);
+
+    const permit = await this.acquire({ ...options, signal });
+    return startTask(fn, {
+      signal,
+      runTimeoutMs,
+      clock: this.clock,
+      releaseOnCancel: this.releaseOnCancel,
+      onRelease: () => permit.release(),
+    }).promise;
+  }
+
+  private async waitForSlot(
+    signal: AbortSignal | undefined,
+    queueTimeoutMs: number | undefined,
+    priority: number,
+    weight: number
+  ): Promise<void> {
+    if (signal?.aborted) throw new AbortError('Task aborted before start');
+    if (this.queue.length === 0 && this.tryTake(weight)) return;
+
+    if (this.queue.length >= this.maxQueue) {
+      throw new QueueOverflowError(
+        `Queue overflow: pending=${this.queue.length}, maxQueue=${this.maxQueue}`
+      );
+    }
+
+    await waitInQueue(
+      this.queue,
+      { priority, weight, seq: this.seq++ },
+      { signal, queueTimeoutMs },
+      this.clock,
+      () => this.watch()
+    );
+  }
+
+  private tryTake(weight: number): boolean {
+    for (;;) {
+      const used = Atomics.load(this.state, USED);
+      if (used !== 0 && used + weight > Atomics.load(this.state, LIMIT)) return false;
+      if (Atomics.compareExchange(this.state, USED, used, used + weight) === used) return true;
+    }
+  }
+
+  private release(weight: number) {
+    Atomics.sub(this.state, USED, weight);
+    this.wakeAll();
+  }
+
+  private wakeAll() {
+    Atomics.add(this.state, SEQ, 1);
+    Atomics.notify(this.state, SEQ);
+    this.grant();
+  }
+
+  /**
+   * Hand free slots to local waiters in queue order (strict head-of-line, like `Limiter`).
+   */
+  private grant() {
+    for (;;) {
+      const next = this.queue.peek();
+      if (!next || !this.tryTake(next.weight)) return;
+
+      this.queue.shift();
+      next.grant();
+    }
+  }
+
+  /**
+   * Grant what fits, then, while waiters remain, wait for another thread to release a slot
+   * and grant again.
+   */
+  private watch() {
+    // Sample the sequence before retrying, so a release in between makes the wait return at once.
+    const seq = Atomics.load(this.state, SEQ);
+    this.grant();
+    if (this.watching || this.queue.length === 0) return;
+
+    this.watching = true;
+    let woken = false;
+
+    const wake = () => {
+      if (woken) return;
+      woken = true;
+      this.clock.clearTimeout(timer);
+      this.watching = false;
+      this.watch();
+    };
+
+    const timer = this.clock.setTimeout(wake, waitAsync ? WAKE_MS : POLL_MS);
+
+    if (waitAsync) {
+      const result = waitAsync(this.state, SEQ, seq, WAKE_MS);
+      if (result.async) result.value.then(wake);
+      else queueMicrotask(wake);
+    }
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * @file stats.ts
+ * @description Opt-in limiter statistics: counters, bounded latency histograms, Prometheus text
+ */
+
+import type { LatencySummary, LimiterEvents, LimiterStats, PrometheusOptions } from './types';
+import type { Emitter } from './events';
+
+/** Sub-buckets per power of two (relative error of a quantile estimate is below ~9%). */
+const SUB_BUCKETS = 8;
+/** Values >= 2^32 ms (~50 days) share the last bucket. */
+const BUCKET_COUNT = 1 + 32 * SUB_BUCKETS;
+
+/**
+ * Log-linear histogram with a fixed number of buckets, so memory stays constant
+ * no matter how many values are recorded.
+ *
+ * Bucket 0 holds values < 1; bucket i >= 1 holds values in [2^((i-1)/8), 2^(i/8)).
+ */
+export class Histogram {
+  private buckets = new Float64Array(BUCKET_COUNT);
+  private count = 0;
+  private sum = 0;
+  private min = Number.POSITIVE_INFINITY;
+  private max = Number.NEGATIVE_INFINITY;
+
+  record(value: number) {
+    const v = Math.max(0, value);
+    const idx =
+      v < 1 ? 0 : Math.min(BUCKET_COUNT - 1, 1 + Math.floor(Math.log2(v) * SUB_BUCKETS));
+
+    this.buckets[idx]++;
+    this.count++;
+    this.sum += v;
+    if (v < this.min) this.min = v;
+    if (v > this.max) this.max = v;
+  }
+
+  reset() {
+    this.buckets.fill(0);
+    this.count = 0;
+    this.sum = 0;
+    this.min = Number.POSITIVE_INFINITY;
+    this.max = Number.NEGATIVE_INFINITY;
+  }
+
+  /**
+   * Estimate the q-quantile (0..1) as the upper bound of the bucket holding it,
+   * clamped to the observed min/max.
+   */
+  quantile(q: number): number {
+    if (this.count === 0) return 0;
+
+    const rank = Math.max(1, Math.ceil(q * this.count));
+    let seen = 0;
+
+    for (let i = 0; i < BUCKET_COUNT; i++) {
+      seen += this.buckets[i];
+      if (seen >= rank) {
+        const upper = i === 0 ? 0 : 2 ** (i / SUB_BUCKETS);
+        return Math.min(this.max, Math.max(this.min, upper));
+      }
+    }
+
+    return this.max;
+  }
+
+  summary(): LatencySummary {
+    if (this.count === 0) {
+      return { count: 0, sum: 0, min: 0, max: 0, mean: 0, p50: 0, p95: 0, p99: 0 };
+    }
+
+    return {
+      count: this.count,
+      sum: this.sum,
+      min: this.min,
+      max: this.max,
+      mean: this.sum / this.count,
+      p50: this.quantile(0.5),
+      p95: this.quantile(0.95),
+      p99: this.quantile(0.99),
+    };
+  }
+}
+
+export class StatsCollector {
+  private started = 0;
+  private succeeded = 0;
+  private failed = 0;
+  private overflowed = 0;
+  private evicted = 0;
+  private timedOut = 0;
+  private aborted = 0;
+  private closed = 0;
+
+  private readonly wait = new Histogram();
+  private readonly run = new Histogram();
+
+  constructor(events: Emitter<LimiterEvents>) {
+    events.on('start', ({ waitMs }) => {
+      this.started++;
+      this.wait.record(waitMs);
+    });
+
+    events.on('settle', (e) => {
+      if (e.status === 'fulfilled') this.succeeded++;
+      else this.failed++;
+      this.run.record(e.runMs);
+    });
+
+    events.on('reject', ({ reason, waitMs }) => {
+      if (reason === 'overflow') {
+        this.overflowed++;
+        return;
+      }
+
+      if (reason === 'closed') {
+        this.closed++;
+        return;
+      }
+
+      if (reason === 'timeout' || reason === 'deadline') this.timedOut++;
+      else if (reason === 'evicted') this.evicted++;
+      else this.aborted++;
+
+      // Waits that ended without a start are still waits.
+      this.wait.record(waitMs);
+    });
+  }
+
+  snapshot(): Omit<LimiterStats, 'activeCount' | 'pendingCount' | 'limit'> {
+    return {
+      started: this.started,
+      succeeded: this.succeeded,
+      failed: this.failed,
+      overflowed: this.overflowed,
+      evicted: this.evicted,
+      timedOut: this.timedOut,
+      aborted: this.aborted,
+      closed: this.closed,
+      waitMs: this.wait.summary(),
+      runMs: this.run.summary(),
+    };
+  }
+
+  reset() {
+    this.started = 0;
+    this.succeeded = 0;
+    this.failed = 0;
+    this.overflowed = 0;
+    this.evicted = 0;
+    this.timedOut = 0;
+    this.aborted = 0;
+    this.closed = 0;
+    this.wait.reset();
+    this.run.reset();
+  }
+}
+
+function escapeLabelValue(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Record<string, string>, extra?: Record<string, string>) {
+  const all = { ...labels, ...extra };
+  const parts = Object.keys(all).map((k) => `${k}="${escapeLabelValue(all[k])}"`);
+  return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+/**
+ * Format a stats snapshot in the Prometheus text exposition format.
+ */
+export function formatPrometheus(stats: LimiterStats, options: PrometheusOptions = {}): string {
+  const { prefix = 'async_limiter', labels = {} } = options;
+  const l = formatLabels(labels);
+  const lines: string[] = [];
+
+  const metric = (name: string, type: string, help: string, value: number) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${prefix}_${name} ${type}`);
+    lines.push(`${prefix}_${name}${l} ${value}`);
+  };
+
+  const summary = (name: string, help: string, s: LatencySummary) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${prefix}_${name} summary`);
+    for (const [q, v] of [
+      ['0.5', s.p50],
+      ['0.95', s.p95],
+      ['0.99', s.p99],
+    ] as const) {
+      lines.push(`${prefix}_${name}${formatLabels(labels, { quantile: q })} ${v}`);
+    }
+    lines.push(`${prefix}_${name}_sum${l} ${s.sum}`);
+    lines.push(`${prefix}_${name}_count${l} ${s.count}`);
+  };
+
+  metric('started_total', 'counter', 'Tasks that started running.', stats.started);
+  metric('succeeded_total', 'counter', 'Tasks that fulfilled.', stats.succeeded);
+  metric('failed_total', 'counter', 'Tasks that rejected while running.', stats.failed);
+  metric('overflowed_total', 'counter', 'Tasks rejected by a full queue.', stats.overflowed);
+  metric('evicted_total', 'counter', 'Queued tasks dropped from a full queue.', stats.evicted);
+  metric(
+    'timed_out_total',
+    'counter',
+    'Tasks rejected by the queue timeout or a deadline.',
+    stats.timedOut
+  );
+  metric('aborted_total', 'counter', 'Tasks aborted before they started.', stats.aborted);
+  metric('closed_total', 'counter', 'Tasks rejected by a closed limiter.', stats.closed);
+  metric('active', 'gauge', 'Running tasks.', stats.activeCount);
+  metric('pending', 'gauge', 'Queued tasks.', stats.pendingCount);
+  metric('limit', 'gauge', 'Current concurrency limit.', stats.limit);
+  summary('wait_ms', 'Queue wait time in milliseconds.', stats.waitMs);
+  summary('run_ms', 'Run time in milliseconds.', stats.runMs);
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,97 @@
+/**
+ * @file store.ts
+ * @description Lease bookkeeping shared by the lease stores, and the in-memory store
+ */
+
+import type { Clock, LeaseRequest, LimiterStore, MemoryStoreOptions } from './types';
+import { assertValidClock } from './assert';
+import { systemClock } from './clock';
+
+export type Lease = {
+  weight: number;
+  /** Epoch ms. */
+  expiresAt: number;
+};
+
+/** Leases of one key, by lease id. */
+export type LeaseTable = Map<string, Lease>;
+
+let counter = 0;
+const idPrefix = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Lease ids are unique across processes (random prefix per process), not just within a store.
+ */
+export function newLeaseId() {
+  return `${idPrefix}-${(++counter).toString(36)}`;
+}
+
+/**
+ * Drop expired leases; returns the weight the remaining ones hold.
+ */
+export function pruneLeases(leases: LeaseTable, now: number) {
+  let used = 0;
+  for (const [id, lease] of leases) {
+    if (lease.expiresAt <= now) leases.delete(id);
+    else used += lease.weight;
+  }
+  return used;
+}
+
+/**
+ * Add a lease to `leases` if it fits in `limit`. Returns its id, or null when full.
+ */
+export function takeLease(leases: LeaseTable, request: LeaseRequest, now: number) {
+  if (pruneLeases(leases, now) + request.weight > request.limit) return null;
+
+  const id = newLeaseId();
+  leases.set(id, { weight: request.weight, expiresAt: now + request.ttlMs });
+  return id;
+}
+
+export function renewLease(leases: LeaseTable, leaseId: string, ttlMs: number, now: number) {
+  const lease = leases.get(leaseId);
+  if (!lease || lease.expiresAt <= now) return false;
+
+  lease.expiresAt = now + ttlMs;
+  return true;
+}
+
+/**
+ * Leases in process memory. Limiters that share one instance share its limits; useful on its own
+ * for several limiters in one process, and as a reference for custom stores.
+ * Lease expiry follows `clock` (pass the limiters' test clock to expire leases in virtual time).
+ */
+export class MemoryStore implements LimiterStore {
+  private keys = new Map<string, LeaseTable>();
+  private readonly clock: Clock;
+
+  constructor(options: MemoryStoreOptions = {}) {
+    const { clock = systemClock } = options;
+    assertValidClock(clock);
+    this.clock = clock;
+  }
+
+  acquire(request: LeaseRequest): string | null {
+    let leases = this.keys.get(request.key);
+    if (!leases) {
+      leases = new Map();
+      this.keys.set(request.key, leases);
+    }
+    return takeLease(leases, request, this.clock.now());
+  }
+
+  renew(key: string, leaseId: string, ttlMs: number): boolean {
+    const leases = this.keys.get(key);
+    return leases ? renewLease(leases, leaseId, ttlMs, this.clock.now()) : false;
+  }
+
+  release(key: string, leaseId: string) {
+    const leases = this.keys.get(key);
+    if (!leases) return;
+
+    leases.delete(leaseId);
+    pruneLeases(leases, this.clock.now());
+    if (leases.size === 0) this.keys.delete(key);
+  }
+}
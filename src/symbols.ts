@@ -0,0 +1,10 @@
+/**
+ * @file symbols.ts
+ * @description Well-known disposal symbols with a fallback for runtimes that lack them (internal)
+ */
+
+// Same fallback as TypeScript's `using` / `await using` downlevel helpers.
+export const asyncDisposeSymbol: typeof Symbol.asyncDispose =
+  Symbol.asyncDispose ?? Symbol.for('Symbol.asyncDispose');
+
+export const disposeSymbol: typeof Symbol.dispose = Symbol.dispose ?? Symbol.for('Symbol.dispose');
@@ -3,6 +3,26 @@
  * @description async-limiter public types
  */
 
+/**
+ * A task run by the limiter. `signal` is aborted when the caller's signal aborts,
+ * `runTimeoutMs` elapses or the deadline passes.
+ */
+export type Task<T> = (signal: AbortSignal, context: TaskContext) => T | Promise<T>;
+
+/**
+ * Passed to a running task.
+ */
+export interface TaskContext {
+  /** Absolute deadline (epoch ms) of the run, if it has one. */
+  readonly deadline?: number;
+
+  /**
+   * Time (ms) left until the deadline (0 once it has passed), or Infinity without a deadline.
+   * Useful to pass on to downstream timeouts.
+   */
+  remainingMs(): number;
+}
+
 export interface LimiterOptions {
   /**
    * Maximum number of tasks allowed to wait in the queue.
@@ -16,17 +36,276 @@ export interface LimiterOptions {
    */
   queueTimeoutMs?: number;
 
+  /**
+   * Timeout (ms) while running. On expiry the task's signal is aborted and the run rejects with
+   * RunTimeoutError; the slot is released once the task settles (see `releaseOnCancel`).
+   * Default: undefined (no timeout)
+   */
+  runTimeoutMs?: number;
+
   /**
    * Abort signal applied as a default for all runs (can be overridden per-run).
-   * Note: does NOT cancel running tasks; only cancels while waiting.
+   * Cancels while waiting and aborts the task's signal while running.
    */
   signal?: AbortSignal;
+
+  /**
+   * Release a running task's slot as soon as it is cancelled (abort, `runTimeoutMs`, deadline)
+   * instead of when the task settles. Frees capacity from tasks that ignore their signal, at the
+   * cost of the limit: such a task keeps running next to the one that takes its slot.
+   * Default: false
+   */
+  releaseOnCancel?: boolean;
+
+  /**
+   * Waiting time (ms) that raises a queued task's effective priority by 1,
+   * so low-priority tasks are not starved by a steady stream of higher ones.
+   * A task of priority `p` then waits behind lower-priority tasks queued more than
+   * `p * priorityAgingMs` earlier.
+   * Default: Infinity (no aging, strict priority order)
+   */
+  priorityAgingMs?: number;
+
+  /**
+   * Maximum number of task starts per `intervalMs` window (rate limit, combined with `limit`).
+   * Tasks held back by the rate limit wait in the queue like any other pending task.
+   * Default: Infinity (no rate limit)
+   */
+  intervalCap?: number;
+
+  /**
+   * Length (ms) of the rate-limit window. Required when `intervalCap` is set.
+   */
+  intervalMs?: number;
+
+  /**
+   * Collect counters and latency histograms for `limiter.stats()`.
+   * Disabled by default (no collection cost).
+   * Default: false
+   */
+  stats?: boolean;
+
+  /**
+   * Default retry policy for all runs (can be overridden per-run).
+   * Default: undefined (no retries)
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Let the limiter adjust its own limit (AIMD) from observed run outcomes and latency.
+   * Default: undefined (fixed limit)
+   */
+  adaptive?: AdaptiveOptions;
+
+  /**
+   * What happens when a task arrives while the queue holds `maxQueue` tasks.
+   * - 'reject-new': the incoming task rejects with QueueOverflowError.
+   * - 'drop-oldest': the longest-queued task rejects with QueueEvictedError.
+   * - 'drop-lowest-priority': the task that would start last rejects with QueueEvictedError
+   *   (the incoming task itself is rejected if it would start last).
+   * - callback: returns the queued task to evict, or `incoming` / undefined to reject the incoming task.
+   * Default: 'reject-new'
+   */
+  overflowStrategy?: OverflowStrategy;
+
+  /**
+   * Order of queued tasks.
+   * - 'priority': by `priority` (aged by `priorityAgingMs`, if set), FIFO among equal priorities.
+   * - 'edf': earliest deadline first; tasks without a deadline go last,
+   *   ties by priority, then FIFO.
+   * In both modes a queued task whose deadline has passed is rejected instead of started.
+   * Default: 'priority'
+   */
+  queueMode?: QueueMode;
+
+  /**
+   * Debug checks: warn when a permit from `acquire()` is garbage-collected without being released
+   * (its slot would never be returned). Captures a stack trace per `acquire()`.
+   * Default: false
+   */
+  debug?: boolean;
+
+  /**
+   * Fair-queuing shares of groups (`RunOptions.group`): a group with share 2 starts twice as many
+   * weight units as a group with share 1 while both have queued tasks. Unlisted groups (and
+   * ungrouped tasks) have share 1, i.e. groups take turns round-robin by default.
+   * Default: {}
+   */
+  groupShares?: Record<string, number>;
+
+  /**
+   * Maximum number of queued tasks per group. A full group only rejects (or evicts, per
+   * `overflowStrategy`) its own tasks. Ungrouped tasks are only bound by `maxQueue`.
+   * Default: Infinity
+   */
+  groupMaxQueue?: number;
+
+  /**
+   * Time source and timers behind every timing feature (timeouts, deadlines, rate windows,
+   * retry backoff, dedupe TTL, wait/run times). Pass `createTestClock()` to drive time by hand.
+   * Default: `Date.now()` and the global `setTimeout` / `clearTimeout`
+   */
+  clock?: Clock;
+}
+
+export type QueueMode = 'priority' | 'edf';
+
+/**
+ * Time source and one-shot timers. Handles returned by `setTimeout` are only passed back to
+ * `clearTimeout`.
+ */
+export interface Clock {
+  /** Current time in epoch ms (or any monotonic ms origin shared by the caller's deadlines). */
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Virtual clock from `createTestClock()`: time only moves when the test advances it.
+ */
+export interface TestClock extends Clock {
+  /**
+   * Move time forward by `ms`, firing due timers in order. Pending promise callbacks are flushed
+   * before and after each timer, so work a timer unblocks settles before the next one fires.
+   */
+  advance(ms: number): Promise<void>;
+  /** Advance until no timer is left (including timers scheduled along the way). */
+  runAll(): Promise<void>;
+  /** Let pending promise callbacks run without moving time. */
+  flush(): Promise<void>;
+  /** Number of scheduled timers. */
+  readonly pendingTimers: number;
+}
+
+/**
+ * A queued (or incoming) task, as seen by an `overflowStrategy` callback.
+ */
+export interface QueuedTaskInfo {
+  priority: number;
+  weight: number;
+  group?: string;
+  /** Time (ms) spent in the queue so far (0 for the incoming task). */
+  waitMs: number;
+}
+
+export type OverflowStrategy =
+  | 'reject-new'
+  | 'drop-oldest'
+  | 'drop-lowest-priority'
+  | ((queued: readonly QueuedTaskInfo[], incoming: QueuedTaskInfo) => QueuedTaskInfo | undefined);
+
+/**
+ * Additive-increase / multiplicative-decrease of the limit.
+ */
+export interface AdaptiveOptions {
+  /**
+   * Lowest limit the limiter may shrink to.
+   * Default: 1
+   */
+  minLimit?: number;
+
+  /**
+   * Highest limit the limiter may grow to.
+   */
+  maxLimit: number;
+
+  /**
+   * Added to the limit after a full window (`limit` successes) while the limiter is saturated.
+   * Default: 1
+   */
+  increase?: number;
+
+  /**
+   * Factor (0..1) applied to the limit on overload.
+   * Default: 0.5
+   */
+  decrease?: number;
+
+  /**
+   * Successful runs slower than this (ms) count as overload.
+   * Default: undefined (latency is ignored)
+   */
+  latencyThresholdMs?: number;
+
+  /**
+   * Which task errors count as overload (others leave the limit unchanged).
+   * Default: every error except AbortError and LimiterClosedError (cancellations)
+   */
+  isOverload?: (error: unknown) => boolean;
+}
+
+export type AdaptiveReason = 'increase' | 'overload' | 'latency';
+
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first one.
+   * `1` disables retries: the call rejects with the task's error, not RetryError.
+   * Default: 3
+   */
+  attempts?: number;
+
+  /**
+   * Backoff (ms) before the first retry; multiplied by `factor` for every further retry.
+   * Default: 100
+   */
+  minDelayMs?: number;
+
+  /**
+   * Upper bound (ms) of a single backoff.
+   * Default: 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Backoff multiplier.
+   * Default: 2
+   */
+  factor?: number;
+
+  /**
+   * Full jitter: each backoff is a random duration between 0 and the computed delay.
+   * Default: true
+   */
+  jitter?: boolean;
+
+  /**
+   * Whether a failed attempt (1-based `attempt`) should be retried.
+   * Default: every task error and run timeout is retried
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+
+  /**
+   * Give up instead of retrying when the next backoff would end more than `maxTotalMs`
+   * after the call was made.
+   * Default: undefined (no limit)
+   */
+  maxTotalMs?: number;
+}
+
+/**
+ * One failed attempt, as recorded by RetryError.
+ */
+export interface RetryAttempt {
+  /** 1-based attempt number. */
+  attempt: number;
+  error: unknown;
+  /** Backoff (ms) slept before the next attempt (undefined for the last attempt). */
+  delayMs?: number;
+}
+
+export interface KeyedLimiterOptions extends LimiterOptions {
+  /**
+   * Maximum number of running tasks across all keys.
+   * Default: undefined (no global cap)
+   */
+  globalLimit?: number;
 }
 
 export interface RunOptions {
   /**
    * Abort signal for this call (overrides LimiterOptions.signal).
-   * Note: does NOT cancel running tasks; only cancels while waiting.
+   * Cancels while waiting and aborts the task's signal while running.
    */
   signal?: AbortSignal;
 
@@ -35,6 +314,165 @@ export interface RunOptions {
    * Default: undefined (no timeout)
    */
   queueTimeoutMs?: number;
+
+  /**
+   * Run timeout for this call (overrides LimiterOptions.runTimeoutMs).
+   * Default: undefined (no timeout)
+   */
+  runTimeoutMs?: number;
+
+  /**
+   * Scheduling priority while waiting in the queue. Higher values start first;
+   * equal priorities start in FIFO order.
+   * Default: 0
+   */
+  priority?: number;
+
+  /**
+   * Units of the limit this task occupies while running (counting semaphore).
+   * Must not exceed the limiter limit.
+   * Default: 1
+   */
+  weight?: number;
+
+  /**
+   * Retry policy for this call (replaces LimiterOptions.retry). Use `{ attempts: 1 }` to disable.
+   * The slot is released during each backoff and the task queues again for the next attempt.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Dedupe key: concurrent calls with the same key share one execution (and one queue slot)
+   * and receive the same result or error. The first call's options configure the shared run.
+   * Default: undefined (no deduplication)
+   */
+  key?: string;
+
+  /**
+   * With `key`: keep serving a fulfilled result for `ttlMs` after it settles (errors are not kept).
+   * Default: 0
+   */
+  ttlMs?: number;
+
+  /**
+   * Absolute deadline (epoch ms, as returned by `Date.now()`) covering the queue wait and the run.
+   * A task still queued at the deadline rejects with DeadlineExceededError; a running task has its
+   * signal aborted and rejects with DeadlineExceededError. Retries never extend it.
+   * Default: undefined (no deadline)
+   */
+  deadline?: number;
+
+  /**
+   * Deadline as a budget (ms) from the call. When both are set, the earlier one applies.
+   * Default: undefined (no deadline)
+   */
+  deadlineMs?: number;
+
+  /**
+   * Fair-queuing group (e.g. a tenant id). Queued tasks of different groups take turns
+   * (see `LimiterOptions.groupShares`), so one busy group cannot hold back the others.
+   * Default: undefined (ungrouped tasks share one group)
+   */
+  group?: string;
+}
+
+/**
+ * Options of one `SharedLimiter` handle (each thread opens its own).
+ * `maxQueue` and the defaults apply to this handle only.
+ */
+export type SharedLimiterOptions = Pick<
+  LimiterOptions,
+  | 'maxQueue'
+  | 'queueTimeoutMs'
+  | 'runTimeoutMs'
+  | 'signal'
+  | 'releaseOnCancel'
+  | 'priorityAgingMs'
+  | 'clock'
+>;
+
+export type SharedRunOptions = Pick<
+  RunOptions,
+  'signal' | 'queueTimeoutMs' | 'runTimeoutMs' | 'priority' | 'weight'
+>;
+
+export interface AcquireOptions
+  extends Pick<RunOptions, 'queueTimeoutMs' | 'priority' | 'weight' | 'group'> {
+  /**
+   * Abort signal for the wait (overrides LimiterOptions.signal). A held permit is not revoked
+   * when it aborts later.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A slot held through `Limiter#acquire()`. Release it exactly once, e.g. with `using`.
+ */
+export interface Permit {
+  /** Units of the limit held by this permit. */
+  readonly weight: number;
+  readonly released: boolean;
+  /** Return the slot. Further calls are no-ops. */
+  release(): void;
+  [Symbol.dispose](): void;
+  [Symbol.asyncDispose](): Promise<void>;
+}
+
+/**
+ * Input of `map()` / `mapSettled()`: pulled lazily, one item per free slot.
+ */
+export type MapInput<T> = Iterable<T> | AsyncIterable<T>;
+
+/**
+ * Maps one input item. `signal` is the task signal (see `Task`).
+ */
+export type Mapper<T, R> = (item: T, index: number, signal: AbortSignal) => R | Promise<R>;
+
+export interface BulkOptions extends Omit<RunOptions, 'weight' | 'key' | 'ttlMs'> {
+  /**
+   * Aborts the whole call: stops pulling input and aborts queued and running items.
+   * The call rejects with AbortError.
+   */
+  signal?: AbortSignal;
+}
+
+export interface MapOptions extends BulkOptions {
+  /**
+   * - true: reject with the first error; stop pulling input and abort the remaining items.
+   * - false: map every item, then reject with an AggregateError of all errors (in input order).
+   * Default: true
+   */
+  stopOnError?: boolean;
+}
+
+export interface StreamOptions extends BulkOptions {
+  /**
+   * - false: yield results in completion order.
+   * - true: yield results in input order (finished results wait in a buffer bounded by `limit`).
+   * Default: false
+   */
+  ordered?: boolean;
+}
+
+export interface CloseOptions {
+  /**
+   * - 'drain': queued tasks still run; only new calls are rejected.
+   * - 'reject': queued tasks are rejected with LimiterClosedError right away.
+   * Running tasks always finish.
+   * Default: 'drain'
+   */
+  mode?: 'drain' | 'reject';
+
+  /**
+   * Abort waiting for the limiter to settle (the limiter stays closed).
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout (ms) for waiting until everything has settled (rejects with IdleTimeoutError).
+   * Default: undefined (no timeout)
+   */
+  timeoutMs?: number;
 }
 
 export interface IdleOptions {
@@ -49,3 +487,168 @@ export interface IdleOptions {
    */
   timeoutMs?: number;
 }
+
+export type LimiterRejectReason =
+  | 'overflow'
+  | 'evicted'
+  | 'timeout'
+  | 'deadline'
+  | 'abort'
+  | 'closed';
+
+/**
+ * Lifecycle events emitted by `Limiter#on()`. Durations are in ms.
+ */
+export interface LimiterEvents {
+  /** A task could not start right away and was queued. */
+  enqueue: { priority: number; weight: number; pendingCount: number };
+
+  /** A task acquired its slot and starts running. */
+  start: {
+    waitMs: number;
+    priority: number;
+    weight: number;
+    activeCount: number;
+    pendingCount: number;
+  };
+
+  /** A running task settled (including run timeout / abort while running). */
+  settle:
+    | { status: 'fulfilled'; waitMs: number; runMs: number }
+    | { status: 'rejected'; error: unknown; waitMs: number; runMs: number };
+
+  /**
+   * A task was rejected before it started (queue overflow, eviction, queue timeout, deadline,
+   * abort or close).
+   */
+  reject: { reason: LimiterRejectReason; error: unknown; waitMs: number };
+
+  /** The limiter became idle (`activeCount === 0 && pendingCount === 0`). */
+  idle: Record<string, never>;
+
+  /** The adaptive controller changed the limit. */
+  adjust: { limit: number; previous: number; reason: AdaptiveReason };
+}
+
+/**
+ * Latency distribution (ms). Quantiles are estimates from a fixed-size log histogram.
+ */
+export interface LatencySummary {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Snapshot returned by `Limiter#stats()` (cumulative since creation or the last `resetStats()`).
+ */
+export interface LimiterStats {
+  /** Tasks that started running. */
+  started: number;
+  /** Tasks that fulfilled. */
+  succeeded: number;
+  /** Tasks that rejected while running (including run timeouts / aborts while running). */
+  failed: number;
+  /** Tasks rejected by a full queue. */
+  overflowed: number;
+  /** Queued tasks dropped from a full queue by `overflowStrategy`. */
+  evicted: number;
+  /** Tasks rejected by the queue timeout or a deadline before they started. */
+  timedOut: number;
+  /** Tasks aborted before they started. */
+  aborted: number;
+  /** Tasks rejected because the limiter was closed. */
+  closed: number;
+  activeCount: number;
+  pendingCount: number;
+  /** Current (effective) limit. */
+  limit: number;
+  /** Queue wait time, including waits that ended in a queue timeout or abort. */
+  waitMs: LatencySummary;
+  runMs: LatencySummary;
+}
+
+export interface PrometheusOptions {
+  /**
+   * Metric name prefix.
+   * Default: 'async_limiter'
+   */
+  prefix?: string;
+
+  /**
+   * Labels added to every sample (e.g. `{ limiter: 'db' }`).
+   */
+  labels?: Record<string, string>;
+}
+
+export interface LeaseRequest {
+  /** Name of the shared limit (every limiter using the same key and store shares it). */
+  key: string;
+  /** Limit of the key, in weight units. */
+  limit: number;
+  /** Units the lease holds. */
+  weight: number;
+  /** The lease expires this long after it was acquired or last renewed. */
+  ttlMs: number;
+}
+
+/**
+ * Storage for the leases of `DistributedLimiter`. A lease counts against its key's limit until
+ * it is released or its TTL passes, so a crashed holder frees its slots on expiry.
+ *
+ * Methods may return plain values or promises.
+ */
+export interface LimiterStore {
+  /**
+   * Take a lease if the live leases of `key` leave room for `weight`.
+   * Resolves with a lease id, or `null` when the key is full.
+   */
+  acquire(request: LeaseRequest): string | null | Promise<string | null>;
+  /** Push a lease's expiry `ttlMs` into the future. Resolves `false` if it already expired. */
+  renew(key: string, leaseId: string, ttlMs: number): boolean | Promise<boolean>;
+  /** Drop a lease. Unknown or expired leases are ignored. */
+  release(key: string, leaseId: string): void | Promise<void>;
+}
+
+export type MemoryStoreOptions = Pick<LimiterOptions, 'clock'>;
+
+export interface DistributedLimiterOptions extends SharedLimiterOptions {
+  /**
+   * Where leases are kept: `MemoryStore`, `FileStore` from `@selentia/async-limiter/node`,
+   * or a custom `LimiterStore` (e.g. Redis).
+   */
+  store: LimiterStore;
+
+  /** Name of the shared limit in the store. Default: 'default' */
+  key?: string;
+
+  /**
+   * Lifetime of a lease. Running tasks renew theirs every `leaseTtlMs / 3`; a lease that could
+   * not be renewed in time is lost, and its task is cancelled with `LeaseExpiredError`.
+   * Default: 30000
+   */
+  leaseTtlMs?: number;
+
+  /**
+   * How often a full key is polled for free slots. Releases by this limiter retry at once;
+   * releases and expiries elsewhere are only noticed by polling.
+   * Default: 50
+   */
+  pollMs?: number;
+}
+
+export interface FileStoreOptions {
+  /** Give up waiting for the lock file after this long (the store call rejects). Default: 5000 */
+  lockTimeoutMs?: number;
+
+  /**
+   * A lock file older than this is treated as left behind by a crashed process and removed.
+   * Must exceed the longest time a store call holds the lock. Default: 10000
+   */
+  staleLockMs?: number;
+}
@@ -0,0 +1,186 @@
+/**
+ * @file waiters.ts
+ * @description Shared abort/timeout-aware wait helpers (internal)
+ */
+
+import type { Clock } from './types';
+import type { Queue, QueueItem } from './queue';
+import { AbortError, DeadlineExceededError, QueueTimeoutError } from './errors';
+
+export type Waiters = Set<() => void>;
+
+type AbortFanout = { handlers: Set<() => void>; listener: () => void };
+
+/**
+ * One real 'abort' listener per signal, fanned out to every registered handler.
+ * EventTarget scans its listener list on add/remove, which turns thousands of tasks
+ * sharing one signal into quadratic work; a Set keeps both O(1).
+ */
+const fanouts = new WeakMap<AbortSignal, AbortFanout>();
+
+export function addAbortHandler(
+  signal: AbortSignal | undefined,
+  onAbort: () => void
+): (() => void) | null {
+  if (!signal) return null;
+
+  let fanout = fanouts.get(signal);
+  if (!fanout) {
+    const handlers = new Set<() => void>();
+    const listener = () => {
+      fanouts.delete(signal);
+      notifyAll(handlers);
+    };
+
+    fanout = { handlers, listener };
+    fanouts.set(signal, fanout);
+    signal.addEventListener('abort', listener, { once: true });
+  }
+
+  const { handlers, listener } = fanout;
+  const handler = () => {
+    handlers.delete(handler);
+    onAbort();
+  };
+  handlers.add(handler);
+
+  return () => {
+    if (!handlers.delete(handler) || handlers.size !== 0) return;
+    if (fanouts.get(signal)?.handlers !== handlers) return;
+
+    fanouts.delete(signal);
+    signal.removeEventListener('abort', listener);
+  };
+}
+
+/**
+ * Register a waiter in `waiters` and resolve once it is called.
+ * The waiter is always unregistered on resolve, abort, or timeout.
+ */
+export function waitOn(
+  waiters: Waiters,
+  options: { signal?: AbortSignal; timeoutMs?: number },
+  clock: Clock,
+  errors: { aborted: string; timeout: () => Error }
+): Promise<void> {
+  const { signal, timeoutMs } = options;
+
+  return new Promise<void>((resolve, reject) => {
+    let done = false;
+
+    const cleanups: Array<() => void> = [];
+    function cleanup() {
+      for (const fn of cleanups.splice(0)) fn();
+    }
+
+    function finish(err?: unknown) {
+      if (done) return;
+      done = true;
+      cleanup();
+      if (err) reject(err);
+      else resolve();
+    }
+
+    const waiter = () => finish();
+    waiters.add(waiter);
+    cleanups.push(() => waiters.delete(waiter));
+
+    const rmAbort = addAbortHandler(signal, () => finish(new AbortError(errors.aborted)));
+    if (rmAbort) cleanups.push(rmAbort);
+
+    if (timeoutMs != null) {
+      const t = clock.setTimeout(() => finish(errors.timeout()), timeoutMs);
+      cleanups.push(() => clock.clearTimeout(t));
+    }
+  });
+}
+
+/**
+ * Notify every registered waiter (snapshot, since waiters unregister themselves).
+ */
+export function notifyAll(waiters: Waiters) {
+  for (const w of Array.from(waiters)) w();
+}
+
+/**
+ * End a queued task's wait through `fail`: on `signal` abort (AbortError), after `queueTimeoutMs`
+ * (QueueTimeoutError) or at `deadline` (DeadlineExceededError), whichever comes first.
+ * `fail` must take the waiter out of its queue and dispatch again: it may have been blocking
+ * the head. Returns the functions that disarm these triggers.
+ */
+export function armQueueWait(
+  options: { signal?: AbortSignal; queueTimeoutMs?: number; deadline?: number },
+  clock: Clock,
+  fail: (error: Error) => void
+): Array<() => void> {
+  const { signal, queueTimeoutMs, deadline } = options;
+  const cleanups: Array<() => void> = [];
+
+  const rmAbort = addAbortHandler(signal, () =>
+    fail(new AbortError('Task aborted while waiting in queue'))
+  );
+  if (rmAbort) cleanups.push(rmAbort);
+
+  if (queueTimeoutMs != null) {
+    const start = clock.now();
+    const t = clock.setTimeout(() => {
+      fail(new QueueTimeoutError(`Task waited ${clock.now() - start}ms in queue`));
+    }, queueTimeoutMs);
+    cleanups.push(() => clock.clearTimeout(t));
+  }
+
+  if (deadline != null) {
+    const t = clock.setTimeout(() => {
+      fail(new DeadlineExceededError('Task deadline passed while waiting in queue'));
+    }, Math.max(0, deadline - clock.now()));
+    cleanups.push(() => clock.clearTimeout(t));
+  }
+
+  return cleanups;
+}
+
+/** A task waiting in the local queue of a SharedLimiter or DistributedLimiter. */
+export type QueueWaiter<R> = QueueItem & {
+  weight: number;
+  grant: (value: R) => void;
+  fail: (error: unknown) => void;
+};
+
+/**
+ * Queue a waiter and resolve with the value passed to its `grant()` (called by the owner after
+ * taking it out of `queue`). `signal` / `queueTimeoutMs` end the wait (see `armQueueWait()`).
+ * `dispatch` runs once the waiter is queued and whenever one fails.
+ */
+export function waitInQueue<R>(
+  queue: Queue<QueueWaiter<R>>,
+  item: { priority: number; weight: number; seq: number },
+  options: { signal?: AbortSignal; queueTimeoutMs?: number },
+  clock: Clock,
+  dispatch: () => void
+): Promise<R> {
+  return new Promise<R>((resolve, reject) => {
+    let cleanups: Array<() => void> = [];
+    const finish = () => {
+      for (const fn of cleanups.splice(0)) fn();
+    };
+
+    const waiter: QueueWaiter<R> = {
+      ...item,
+      enqueuedAt: clock.now(),
+      grant: (value) => {
+        finish();
+        resolve(value);
+      },
+      fail: (err) => {
+        finish();
+        queue.remove(waiter);
+        dispatch();
+        reject(err);
+      },
+    };
+
+    cleanups = armQueueWait(options, clock, waiter.fail);
+    queue.push(waiter);
+    dispatch();
+  });
+}
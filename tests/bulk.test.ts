@@ -0,0 +1,331 @@
+/**
+ * @file bulk.test.ts
+ * @description Public behavior tests for Limiter#map() / mapSettled().
+ *
+ * Notes
+ * - Same conventions as limter.test.ts: fake timers, rejection handlers attached
+ *   before advancing timers, real timers restored after each test.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AbortError, createLimit, Limiter } from '../src';
+
+function delay(ms: number) {
+  return new Promise<void>((r) => setTimeout(r, ms));
+}
+
+/** Like `delay`, but rejects as soon as `signal` aborts. */
+function abortableDelay(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const t = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(t);
+      reject(signal.reason);
+    });
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Limiter#map()', () => {
+  it('keeps input order and pulls input lazily (at most `limit` items in flight)', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(2);
+    let pulled = 0;
+    let running = 0;
+    let maxRunning = 0;
+
+    function* source() {
+      for (let i = 0; i < 6; i++) {
+        pulled++;
+        yield i;
+      }
+    }
+
+    const p = limiter.map(source(), async (n) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(n % 2 === 0 ? 100 : 50);
+      running--;
+      return n * 10;
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(pulled).toBe(2);
+    expect(limiter.pendingCount).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await expect(p).resolves.toEqual([0, 10, 20, 30, 40, 50]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('accepts async iterables and passes index and task signal to the mapper', async () => {
+    const limit = createLimit(3);
+
+    async function* source() {
+      yield 'a';
+      yield 'b';
+      yield 'c';
+    }
+
+    const out = await limit.map(source(), (item, index, signal) => {
+      expect(signal).toBeInstanceOf(AbortSignal);
+      return `${index}:${item}`;
+    });
+
+    expect(out).toEqual(['0:a', '1:b', '2:c']);
+  });
+
+  it('stopOnError (default) rejects with the first error, stops pulling and aborts running items', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(2);
+    const pulled: number[] = [];
+    let slowSignal: AbortSignal | undefined;
+
+    function* source() {
+      for (let i = 0; i < 100; i++) {
+        pulled.push(i);
+        yield i;
+      }
+    }
+
+    const p = limiter.map(source(), async (n, _index, signal) => {
+      if (n === 0) {
+        slowSignal = signal;
+        await abortableDelay(1000, signal);
+      }
+      await delay(10);
+      throw new Error(`fail:${n}`);
+    });
+    const asrt = expect(p).rejects.toThrow('fail:1');
+
+    await vi.advanceTimersByTimeAsync(20);
+    await asrt;
+
+    expect(pulled).toEqual([0, 1]);
+    expect(slowSignal?.aborted).toBe(true);
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('stopOnError: false runs every item and rejects with an AggregateError in input order', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(2);
+    const seen: number[] = [];
+
+    const p = limiter.map(
+      [1, 2, 3, 4],
+      async (n) => {
+        await delay(n === 2 ? 100 : 10);
+        seen.push(n);
+        if (n % 2 === 0) throw new Error(`fail:${n}`);
+        return n;
+      },
+      { stopOnError: false }
+    );
+    const asrt = expect(p).rejects.toSatisfy((err: unknown) => {
+      expect(err).toBeInstanceOf(AggregateError);
+      const { errors } = err as AggregateError;
+      expect(errors.map((e: Error) => e.message)).toEqual(['fail:2', 'fail:4']);
+      return true;
+    });
+
+    await vi.advanceTimersByTimeAsync(200);
+    await asrt;
+    expect(seen.sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('signal aborts the whole call with AbortError', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const ac = new AbortController();
+
+    const p = limiter.map([1, 2, 3], (n, _index, signal) => abortableDelay(100, signal), {
+      signal: ac.signal,
+    });
+    const asrt = expect(p).rejects.toBeInstanceOf(AbortError);
+
+    await vi.advanceTimersByTimeAsync(50);
+    ac.abort();
+    await asrt;
+
+    expect(limiter.activeCount).toBe(0);
+    expect(limiter.pendingCount).toBe(0);
+    await expect(limiter.map([1], (n) => n, { signal: ac.signal })).rejects.toBeInstanceOf(
+      AbortError
+    );
+  });
+
+  it('rejects when the input iterator throws', async () => {
+    const limiter = new Limiter(2);
+
+    function* source() {
+      yield 1;
+      throw new Error('source failed');
+    }
+
+    await expect(limiter.map(source(), (n) => n)).rejects.toThrow('source failed');
+  });
+});
+
+describe('Limiter#mapSettled()', () => {
+  it('resolves with one settled result per item, in input order', async () => {
+    const limit = createLimit(2);
+
+    const results = await limit.mapSettled(new Set([1, 2, 3]), async (n) => {
+      if (n === 2) throw new Error('two');
+      return n;
+    });
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 1 },
+      { status: 'rejected', reason: new Error('two') },
+      { status: 'fulfilled', value: 3 },
+    ]);
+  });
+
+  it('validates run options up front and resolves [] for empty input', async () => {
+    const limiter = new Limiter(1);
+
+    await expect(limiter.mapSettled([], (n) => n)).resolves.toEqual([]);
+    await expect(limiter.mapSettled([1], (n) => n, { priority: NaN })).rejects.toThrow(RangeError);
+  });
+});
+
+describe('Limiter#stream()', () => {
+  it('yields in completion order by default and in input order with ordered: true', async () => {
+    vi.useFakeTimers();
+
+    const durations = [300, 100, 200];
+    const mapper = async (ms: number) => {
+      await delay(ms);
+      return ms;
+    };
+
+    const collect = async (ordered: boolean) => {
+      const limiter = new Limiter(3);
+      const out: number[] = [];
+      for await (const ms of limiter.stream(durations, mapper, { ordered })) out.push(ms);
+      return out;
+    };
+
+    const unordered = collect(false);
+    const ordered = collect(true);
+
+    await vi.advanceTimersByTimeAsync(700);
+    await expect(unordered).resolves.toEqual([100, 200, 300]);
+    await expect(ordered).resolves.toEqual([300, 100, 200]);
+  });
+
+  it('bounds running + buffered results by the limit (a slow consumer slows down pulling)', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(2);
+    let pulled = 0;
+
+    function* source() {
+      for (let i = 0; i < 10; i++) {
+        pulled++;
+        yield i;
+      }
+    }
+
+    const it = limiter.stream(source(), async (n) => n, { ordered: true });
+    expect(pulled).toBe(0);
+
+    await expect(it.next()).resolves.toEqual({ value: 0, done: false });
+    await vi.advanceTimersByTimeAsync(100);
+
+    // 0 consumed; 1 and 2 finished and buffered, nothing more is pulled until they are consumed.
+    expect(pulled).toBe(3);
+
+    await expect(it.next()).resolves.toEqual({ value: 1, done: false });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(pulled).toBe(4);
+
+    await it.return();
+  });
+
+  it('break stops pulling input and aborts queued and running items', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(2);
+    const signals: AbortSignal[] = [];
+    let closed = false;
+    let pulled = 0;
+
+    function* source() {
+      try {
+        for (let i = 0; ; i++) {
+          pulled++;
+          yield i;
+        }
+      } finally {
+        closed = true;
+      }
+    }
+
+    const mapper = async (n: number, _index: number, signal: AbortSignal) => {
+      signals.push(signal);
+      await abortableDelay(n === 0 ? 10 : 1000, signal);
+      return n;
+    };
+
+    const consume = (async () => {
+      for await (const n of limiter.stream(source(), mapper)) {
+        if (n === 0) break;
+      }
+    })();
+
+    await vi.advanceTimersByTimeAsync(20);
+    await consume;
+
+    expect(closed).toBe(true);
+    expect(pulled).toBe(3);
+    expect(signals.slice(1).every((s) => s.aborted)).toBe(true);
+    expect(limiter.activeCount).toBe(0);
+    expect(limiter.pendingCount).toBe(0);
+  });
+
+  it('throws task errors from the iterator and stops the stream', async () => {
+    const limit = createLimit(2);
+
+    const mapper = async (n: number) => {
+      if (n === 2) throw new Error('two');
+      return n;
+    };
+
+    const out: number[] = [];
+    const consume = async () => {
+      for await (const n of limit.stream([1, 2, 3], mapper, { ordered: true })) out.push(n);
+    };
+
+    await expect(consume()).rejects.toThrow('two');
+    expect(out).toEqual([1]);
+  });
+
+  it('signal aborts the stream with AbortError', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const ac = new AbortController();
+
+    const it = limiter.stream([1, 2], (n, _index, signal) => abortableDelay(100, signal), {
+      signal: ac.signal,
+    });
+    const first = it.next();
+    const asrt = expect(first).rejects.toBeInstanceOf(AbortError);
+
+    await vi.advanceTimersByTimeAsync(10);
+    ac.abort();
+    await asrt;
+
+    expect(limiter.activeCount).toBe(0);
+    expect(() => limiter.stream([1], (n) => n, { runTimeoutMs: -1 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * @file distributed.test.ts
+ * @description Tests for DistributedLimiter, MemoryStore and FileStore (leases with a TTL).
+ *
+ * Notes
+ * - Several limiters on one store stand in for several processes: they only share the store.
+ * - Real timers with short TTLs and poll intervals; FileStore tests use a fresh temp directory.
+ */
+
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { writeFileSync } from 'node:fs';
+import { mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AbortError,
+  createTestClock,
+  DistributedLimiter,
+  LeaseExpiredError,
+  MemoryStore,
+  QueueOverflowError,
+  QueueTimeoutError,
+  RunTimeoutError,
+  type LimiterStore,
+} from '../src';
+import { FileStore } from '../src/node';
+
+function delay(ms: number) {
+  return new Promise<void>((r) => setTimeout(r, ms));
+}
+
+/** Like `delay`, but rejects as soon as `signal` aborts. */
+function abortableDelay(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const t = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(t);
+      reject(signal.reason);
+    });
+  });
+}
+
+async function runConcurrently(limiters: DistributedLimiter[], perLimiter: number) {
+  let running = 0;
+  let maxRunning = 0;
+
+  await Promise.all(
+    limiters.flatMap((limiter) =>
+      Array.from({ length: perLimiter }, () =>
+        limiter.run(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await delay(10);
+          running--;
+        })
+      )
+    )
+  );
+
+  return maxRunning;
+}
+
+describe('DistributedLimiter', () => {
+  it('enforces one limit across every limiter of a store and key', async () => {
+    const store = new MemoryStore();
+    const limiters = [1, 2, 3].map(() => new DistributedLimiter(2, { store, pollMs: 5 }));
+    const other = new DistributedLimiter(1, { store, key: 'other', pollMs: 5 });
+
+    const otherTask = other.run(async () => 'own key');
+    expect(await runConcurrently(limiters, 3)).toBe(2);
+    await expect(otherTask).resolves.toBe('own key');
+
+    expect(limiters.map((l) => [l.activeCount, l.pendingCount])).toEqual([
+      [0, 0],
+      [0, 0],
+      [0, 0],
+    ]);
+  });
+
+  it('frees the slot of a crashed holder when its lease expires', async () => {
+    const store = new MemoryStore();
+    // A lease taken by a process that died without releasing it.
+    store.acquire({ key: 'default', limit: 1, weight: 1, ttlMs: 50 });
+
+    const limiter = new DistributedLimiter(1, { store, pollMs: 5 });
+    const startedAt = Date.now();
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+  });
+
+  it('renews the lease of a running task', async () => {
+    const store = new MemoryStore();
+    const limiter = new DistributedLimiter(1, { store, leaseTtlMs: 30, pollMs: 5 });
+    const other = new DistributedLimiter(1, { store, leaseTtlMs: 30, pollMs: 5 });
+
+    let overlapped = false;
+    let running = false;
+    const long = limiter.run(async () => {
+      running = true;
+      await delay(120);
+      running = false;
+    });
+    await delay(5);
+
+    await other.run(async () => {
+      overlapped = running;
+    });
+
+    await long;
+    expect(overlapped).toBe(false);
+  });
+
+  it('cancels a task whose lease is lost', async () => {
+    const store = new MemoryStore();
+    const forgetful: LimiterStore = {
+      acquire: (request) => store.acquire(request),
+      renew: () => false,
+      release: (key, leaseId) => store.release(key, leaseId),
+    };
+    const limiter = new DistributedLimiter(1, { store: forgetful, leaseTtlMs: 30 });
+
+    let taskSignal: AbortSignal | undefined;
+    const task = limiter.run(async (signal) => {
+      taskSignal = signal;
+      await abortableDelay(200, signal);
+    });
+
+    await expect(task).rejects.toBeInstanceOf(LeaseExpiredError);
+    expect(taskSignal!.reason).toBeInstanceOf(LeaseExpiredError);
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('polls and expires leases on an injected clock', async () => {
+    const clock = createTestClock();
+    const store = new MemoryStore({ clock });
+    store.acquire({ key: 'default', limit: 1, weight: 1, ttlMs: 1000 });
+
+    const limiter = new DistributedLimiter(1, { store, clock, pollMs: 100 });
+    const started = limiter.run(async () => clock.now());
+
+    await clock.advance(999);
+    expect(limiter.pendingCount).toBe(1);
+
+    await clock.advance(1);
+    await expect(started).resolves.toBe(1000);
+  });
+
+  it('supports queueTimeoutMs, signal, runTimeoutMs and maxQueue like Limiter', async () => {
+    const store = new MemoryStore();
+    const holder = new DistributedLimiter(1, { store });
+    const limiter = new DistributedLimiter(1, { store, maxQueue: 1, pollMs: 5 });
+
+    let release!: () => void;
+    const held = holder.run(() => new Promise<void>((r) => (release = r)));
+    await delay(0);
+
+    await expect(limiter.run(async () => 1, { queueTimeoutMs: 20 })).rejects.toBeInstanceOf(
+      QueueTimeoutError
+    );
+
+    const ac = new AbortController();
+    const aborted = limiter.run(async () => 1, { signal: ac.signal });
+    await expect(limiter.run(async () => 1)).rejects.toBeInstanceOf(QueueOverflowError);
+    ac.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    expect(limiter.pendingCount).toBe(0);
+
+    release();
+    await held;
+
+    await expect(limiter.run((signal) => abortableDelay(100, signal), { runTimeoutMs: 10 })).rejects.toBeInstanceOf(
+      RunTimeoutError
+    );
+    await expect(limiter.run(async () => 'free again', { queueTimeoutMs: 50 })).resolves.toBe(
+      'free again'
+    );
+  });
+
+  it('rejects the waiter when the store fails', async () => {
+    const failing: LimiterStore = {
+      acquire: () => Promise.reject(new Error('store down')),
+      renew: () => true,
+      release: () => {},
+    };
+    const limiter = new DistributedLimiter(1, { store: failing });
+
+    await expect(limiter.run(async () => 1)).rejects.toThrow('store down');
+    expect(limiter.pendingCount).toBe(0);
+  });
+
+  it('validates its arguments', () => {
+    const store = new MemoryStore();
+
+    expect(() => new DistributedLimiter(0, { store })).toThrow(RangeError);
+    expect(() => new DistributedLimiter(1, { store: {} as LimiterStore })).toThrow(RangeError);
+    expect(() => new DistributedLimiter(1, { store, key: '' })).toThrow(RangeError);
+    expect(() => new DistributedLimiter(1, { store, leaseTtlMs: 0 })).toThrow(RangeError);
+    expect(() => new DistributedLimiter(1, { store, pollMs: Number.NaN })).toThrow(RangeError);
+
+    const limiter = new DistributedLimiter(2, { store });
+    return expect(limiter.run(async () => 1, { weight: 3 })).rejects.toThrow(RangeError);
+  });
+});
+
+describe('FileStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'async-limiter-'));
+    path = join(dir, 'leases.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the limit across stores opened on the same file', async () => {
+    const stores = [new FileStore(path), new FileStore(path)];
+
+    const ids = await Promise.all(
+      Array.from({ length: 6 }, (_, i) =>
+        stores[i % 2].acquire({ key: 'k', limit: 3, weight: 1, ttlMs: 1000 })
+      )
+    );
+    expect(ids.filter((id) => id !== null)).toHaveLength(3);
+
+    const [first] = ids.filter((id): id is string => id !== null);
+    await stores[1].release('k', first);
+    const again = await stores[0].acquire({ key: 'k', limit: 3, weight: 1, ttlMs: 1000 });
+    expect(again).not.toBeNull();
+  });
+
+  it('expires and renews leases', async () => {
+    const store = new FileStore(path);
+
+    const id = await store.acquire({ key: 'k', limit: 1, weight: 1, ttlMs: 30 });
+    expect(await store.renew('k', id!, 30)).toBe(true);
+    await delay(50);
+
+    expect(await store.renew('k', id!, 30)).toBe(false);
+    expect(await store.acquire({ key: 'k', limit: 1, weight: 1, ttlMs: 30 })).not.toBeNull();
+  });
+
+  it('removes a stale lock file left by a crashed process', async () => {
+    await writeFile(`${path}.lock`, '');
+    const old = new Date(Date.now() - 60_000);
+    await utimes(`${path}.lock`, old, old);
+
+    const store = new FileStore(path, { staleLockMs: 1000 });
+    expect(await store.acquire({ key: 'k', limit: 1, weight: 1, ttlMs: 1000 })).not.toBeNull();
+
+    await writeFile(`${path}.lock`, '');
+    const blocked = new FileStore(path, { lockTimeoutMs: 30 });
+    await expect(blocked.release('k', 'x')).rejects.toThrow(/timed out/);
+  });
+
+  it('lets only one of several contenders take over a stale lock', async () => {
+    await writeFile(`${path}.lock`, '');
+    const old = new Date(Date.now() - 60_000);
+    await utimes(`${path}.lock`, old, old);
+
+    const stores = Array.from({ length: 4 }, () => new FileStore(path, { staleLockMs: 1000 }));
+    const ids = await Promise.all(
+      stores.map((store) => store.acquire({ key: 'k', limit: 1, weight: 1, ttlMs: 1000 }))
+    );
+
+    expect(ids.filter((id) => id !== null)).toHaveLength(1);
+    expect(await readdir(dir)).toEqual(['leases.json']);
+  });
+
+  it('neither commits nor removes the lock once another process has taken it over', async () => {
+    const store = new FileStore(path, { lockTimeoutMs: 30 });
+    await store.acquire({ key: 'k', limit: 1, weight: 1, ttlMs: 1000 });
+    const before = await readFile(path, 'utf8');
+
+    // Another contender replaces the lock while this update holds it (as after a stale takeover).
+    const update = (store as any).update((state: Map<string, Map<string, unknown>>) => {
+      state.clear();
+      writeFileSync(`${path}.lock`, 'other-owner');
+    });
+
+    await expect(update).rejects.toThrow(/timed out/);
+    expect(await readFile(`${path}.lock`, 'utf8')).toBe('other-owner');
+    expect(await readFile(path, 'utf8')).toBe(before);
+    expect((await readdir(dir)).sort()).toEqual(['leases.json', 'leases.json.lock']);
+  });
+
+  it('backs a DistributedLimiter', async () => {
+    const limiters = [1, 2].map(
+      () => new DistributedLimiter(2, { store: new FileStore(path), pollMs: 5 })
+    );
+    expect(await runConcurrently(limiters, 3)).toBe(2);
+
+    // Leases are released in the background once a task settles.
+    await delay(50);
+    expect(await readFile(path, 'utf8')).toBe('{}');
+  });
+});
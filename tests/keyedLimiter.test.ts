@@ -0,0 +1,209 @@
+/**
+ * @file keyedLimiter.test.ts
+ * @description Public behavior tests for KeyedLimiter / createKeyedLimit.
+ *
+ * Notes
+ * - Same conventions as limter.test.ts: fake timers, rejection handlers attached
+ *   before advancing timers, real timers restored after each test.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createKeyedLimit,
+  AbortError,
+  IdleTimeoutError,
+  KeyedLimiter,
+  QueueTimeoutError,
+  type Clock,
+} from '../src';
+
+function delay(ms: number) {
+  return new Promise<void>((r) => setTimeout(r, ms));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('KeyedLimiter', () => {
+  it('limits each key independently', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new KeyedLimiter(1);
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(`start:${name}`);
+      await delay(100);
+      order.push(`end:${name}`);
+    };
+
+    const tasks = [
+      limiter.run('a', task('a1')),
+      limiter.run('a', task('a2')),
+      limiter.run('b', task('b1')),
+    ];
+
+    expect(limiter.activeCountOf('a')).toBe(1);
+    expect(limiter.pendingCountOf('a')).toBe(1);
+    expect(limiter.activeCountOf('b')).toBe(1);
+    expect(limiter.activeCount).toBe(2);
+    expect(limiter.pendingCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(300);
+    await Promise.all(tasks);
+
+    expect(order).toEqual([
+      'start:a1',
+      'start:b1',
+      'end:a1',
+      'start:a2',
+      'end:b1',
+      'end:a2',
+    ]);
+  });
+
+  it('enforces the global cap and counts tasks waiting for it as pending', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new KeyedLimiter(1, { globalLimit: 2 });
+    let running = 0;
+    let maxRunning = 0;
+
+    const tasks = ['a', 'b', 'c', 'a'].map((key) =>
+      limiter.run(key, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(100);
+        running--;
+      })
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.activeCount).toBe(2);
+    expect(limiter.activeCountOf('c')).toBe(0);
+    expect(limiter.pendingCountOf('c')).toBe(1);
+    expect(limiter.pendingCountOf('a')).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(tasks);
+
+    expect(maxRunning).toBe(2);
+    expect(limiter.activeCount).toBe(0);
+    expect(limiter.pendingCount).toBe(0);
+  });
+
+  it('evicts per-key state once a key is idle', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new KeyedLimiter(1);
+
+    const a = limiter.run('a', async () => delay(50));
+    const b = limiter.run('b', async () => delay(100));
+    expect(limiter.size).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(60);
+    await a;
+    expect(limiter.size).toBe(1);
+
+    const ac = new AbortController();
+    const queued = limiter.run('b', async () => delay(1), { signal: ac.signal });
+    const asrt = expect(queued).rejects.toBeInstanceOf(AbortError);
+    ac.abort();
+    await asrt;
+
+    await vi.advanceTimersByTimeAsync(100);
+    await b;
+    expect(limiter.size).toBe(0);
+  });
+
+  it('queueTimeoutMs covers the key wait and the global wait combined', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new KeyedLimiter(1, { globalLimit: 1 });
+
+    const holdA = limiter.run('a', async () => delay(100));
+    const holdB = limiter.run('b', async () => delay(100));
+    const queued = limiter.run('b', async () => delay(1), { queueTimeoutMs: 150 });
+
+    const asrt = expect(queued).rejects.toBeInstanceOf(QueueTimeoutError);
+
+    // b#1 waits for the global slot until 100ms, runs until 200ms; b#2 gives up at 150ms.
+    await vi.advanceTimersByTimeAsync(160);
+    await asrt;
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([holdA, holdB]);
+    expect(limiter.size).toBe(0);
+  });
+
+  it('onIdle(key) waits for one key, onIdle() for all keys', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new KeyedLimiter(1);
+    const done: string[] = [];
+
+    const tasks = [limiter.run('a', async () => delay(50)), limiter.run('b', async () => delay(100))];
+
+    const idleA = limiter.onIdle('a').then(() => done.push('a'));
+    const idleAll = limiter.onIdle().then(() => done.push('all'));
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([...tasks, idleA, idleAll]);
+
+    expect(done).toEqual(['a', 'all']);
+    await expect(limiter.onIdle('unknown')).resolves.toBeUndefined();
+  });
+
+  it('onIdle() rejects with IdleTimeoutError / AbortError', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new KeyedLimiter(1);
+    const hold = limiter.run('a', async () => delay(200));
+
+    const timedOut = limiter.onIdle(undefined, { timeoutMs: 50 });
+    const asrt = expect(timedOut).rejects.toBeInstanceOf(IdleTimeoutError);
+
+    const ac = new AbortController();
+    const aborted = limiter.onIdle(undefined, { signal: ac.signal });
+    const asrt2 = expect(aborted).rejects.toBeInstanceOf(AbortError);
+    ac.abort();
+
+    await vi.advanceTimersByTimeAsync(60);
+    await Promise.all([asrt, asrt2]);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await hold;
+  });
+
+  it('validates options up front', () => {
+    expect(() => new KeyedLimiter(0)).toThrow(RangeError);
+    expect(() => new KeyedLimiter(1, { globalLimit: 0 })).toThrow(RangeError);
+    expect(() => new KeyedLimiter(1, { maxQueue: -1 })).toThrow(RangeError);
+    expect(() => new KeyedLimiter(1, { intervalCap: 1 })).toThrow(RangeError);
+    expect(() => new KeyedLimiter(4, { adaptive: { maxLimit: 2 } })).toThrow(RangeError);
+    expect(() => new KeyedLimiter(1, { clock: {} as Clock })).toThrow(RangeError);
+  });
+});
+
+describe('createKeyedLimit (public wrapper)', () => {
+  it('exposes per-key observability and the underlying limiter', async () => {
+    vi.useFakeTimers();
+
+    const limit = createKeyedLimit(1, { globalLimit: 10 });
+
+    expect(limit.limiter).toBeInstanceOf(KeyedLimiter);
+
+    const tasks = [limit('guild-1', async () => delay(100)), limit('guild-1', async () => delay(100))];
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limit.activeCount).toBe(1);
+    expect(limit.pendingCount).toBe(1);
+    expect(limit.activeCountOf('guild-1')).toBe(1);
+    expect(limit.pendingCountOf('guild-1')).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(300);
+    await Promise.all(tasks);
+    await expect(limit.onIdle('guild-1')).resolves.toBeUndefined();
+    await expect(limit.onIdle()).resolves.toBeUndefined();
+  });
+});
@@ -21,7 +21,9 @@ import {
   AbortError,
   QueueTimeoutError,
   IdleTimeoutError,
+  createTestClock,
 } from '../src';
+import { DeadlineQueue, TaskQueue, type QueueItem } from '../src/queue';
 
 function delay(ms: number) {
   return new Promise<void>((resolve) => setTimeout(resolve, ms));
@@ -100,8 +102,8 @@ describe('Limiter – internal branch coverage', () => {
     const limiter = new Limiter(1);
 
     const p = (limiter as any).waitForTurn({});
-    const queue = (limiter as any).queue as any[];
-    const entry = queue[0];
+    const queue = (limiter as any).queue;
+    const [entry] = [...queue] as any[];
 
     const cleanup = vi.fn();
     entry.cleanup.push(cleanup);
@@ -115,16 +117,15 @@ describe('Limiter – internal branch coverage', () => {
     entry.defer.reject(new Error('settle pending promise'));
     await asrt;
 
-    const idx = queue.indexOf(entry);
-    if (idx >= 0) queue.splice(idx, 1);
+    queue.remove(entry);
   });
 
   it('defer.resolve/reject return false after settled', async () => {
     const limiter = new Limiter(1);
 
     const p = (limiter as any).waitForTurn({});
-    const queue = (limiter as any).queue as any[];
-    const entry = queue[0];
+    const queue = (limiter as any).queue;
+    const [entry] = [...queue] as any[];
 
     expect(entry.defer.resolve()).toBe(true);
     await expect(p).resolves.toBeUndefined();
@@ -134,19 +135,16 @@ describe('Limiter – internal branch coverage', () => {
     expect(entry.defer.reject(new Error('late'))).toBe(false);
 
     entry.remove();
-    const idx = queue.indexOf(entry);
-    if (idx >= 0) queue.splice(idx, 1);
+    queue.remove(entry);
   });
 
-  it('shiftNext skips removed entries (covers "continue" branch)', async () => {
+  it('peekNext drops removed entries (covers "continue" branch)', async () => {
     const limiter = new Limiter(1);
 
     const p1 = (limiter as any).waitForTurn({});
     const p2 = (limiter as any).waitForTurn({});
 
-    const queue = (limiter as any).queue as any[];
-    const entry1 = queue[0];
-    const entry2 = queue[1];
+    const [entry1, entry2] = [...(limiter as any).queue] as any[];
 
     entry1.remove(); // mark as removed
 
@@ -154,8 +152,9 @@ describe('Limiter – internal branch coverage', () => {
     entry1.defer.reject(new Error('removed'));
     await asrt1;
 
-    const next = (limiter as any).shiftNext();
+    const next = (limiter as any).peekNext();
     expect(next).toBe(entry2);
+    expect((limiter as any).queue.length).toBe(1);
 
     expect(entry2.defer.resolve()).toBe(true);
     await expect(p2).resolves.toBeUndefined();
@@ -185,4 +184,106 @@ describe('Limiter – internal branch coverage', () => {
     expect(limit.activeCount).toBe(0);
     expect(limit.pendingCount).toBe(0);
   });
+
+  it('TaskQueue unlinks head, middle and tail entries in place, keeping FIFO order', () => {
+    const queue = new TaskQueue<QueueItem & { id: number }>(Number.POSITIVE_INFINITY);
+    const items = [0, 1, 2, 3, 4].map((id) => ({ id, priority: 0, seq: id, enqueuedAt: 0 }));
+    for (const item of items) queue.push(item);
+
+    expect(queue.remove(items[2])).toBe(true);
+    expect(queue.remove(items[0])).toBe(true);
+    expect(queue.remove(items[4])).toBe(true);
+    expect(queue.remove(items[4])).toBe(false);
+
+    expect([...queue].map((i) => i.id)).toEqual([1, 3]);
+    expect(queue.shift()?.id).toBe(1);
+    expect(queue.shift()?.id).toBe(3);
+    expect(queue.shift()).toBeUndefined();
+    expect(queue.length).toBe(0);
+  });
+
+  it('DeadlineQueue keeps heap order across removals of arbitrary entries', () => {
+    const queue = new DeadlineQueue<QueueItem & { id: number }>();
+    const deadlines = [70, 10, 50, undefined, 30, 60, 20, 40];
+    const items = deadlines.map((deadline, id) => ({
+      id,
+      priority: 0,
+      seq: id,
+      enqueuedAt: 0,
+      deadline,
+    }));
+    for (const item of items) queue.push(item);
+
+    expect(queue.remove(items[4])).toBe(true);
+    expect(queue.remove(items[1])).toBe(true);
+    expect(queue.remove(items[1])).toBe(false);
+    expect(queue.last()?.id).toBe(3);
+    expect(queue.oldest()?.id).toBe(0);
+
+    const order: number[] = [];
+    for (let item = queue.shift(); item; item = queue.shift()) order.push(item.id);
+    expect(order).toEqual([6, 7, 2, 5, 0, 3]);
+  });
+
+  it('registers one abort listener per signal and removes it with the last waiter', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const hold = limiter.run(async () => delay(100));
+
+    const ac = new AbortController();
+    const add = vi.spyOn(ac.signal, 'addEventListener');
+    const remove = vi.spyOn(ac.signal, 'removeEventListener');
+
+    const queued = Array.from({ length: 1000 }, () =>
+      limiter.run(async () => {}, { signal: ac.signal, queueTimeoutMs: 50 })
+    );
+    const asrts = queued.map((p) => expect(p).rejects.toBeInstanceOf(QueueTimeoutError));
+
+    expect(add).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(60);
+    await Promise.all(asrts);
+    expect(remove).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await hold;
+  });
+
+  it('onPendingBelow drops its waiter set on abort and timeout (no leak)', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const hold = limiter.run(async () => delay(100));
+    const queued = [limiter.run(async () => {}), limiter.run(async () => {})];
+
+    const ac = new AbortController();
+    const waits = [
+      expect(limiter.onPendingBelow(2, { signal: ac.signal })).rejects.toBeInstanceOf(AbortError),
+      expect(limiter.onEmpty({ timeoutMs: 10 })).rejects.toBeInstanceOf(IdleTimeoutError),
+    ];
+    expect((limiter as any).pendingWaiters.size).toBe(2);
+
+    ac.abort();
+    await vi.advanceTimersByTimeAsync(10);
+    await Promise.all(waits);
+    expect((limiter as any).pendingWaiters.size).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([hold, ...queued]);
+  });
+
+  it('drops expired dedupe results of keys that are never called again (no leak)', async () => {
+    const clock = createTestClock();
+    const limiter = new Limiter(4, { clock });
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => limiter.run(async () => i, { key: `k${i}`, ttlMs: 10 }))
+    );
+    expect((limiter as any).flights.size).toBe(10);
+
+    await clock.advance(10);
+    expect((limiter as any).flights.size).toBe(0);
+    expect(clock.pendingTimers).toBe(0);
+  });
 });
@@ -12,17 +12,34 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import {
   createLimit,
+  createTestClock,
   AbortError,
+  DeadlineExceededError,
   IdleTimeoutError,
   Limiter,
+  LimiterClosedError,
+  QueueEvictedError,
   QueueOverflowError,
   QueueTimeoutError,
+  RetryError,
+  RunTimeoutError,
 } from '../src';
 
 function delay(ms: number) {
   return new Promise<void>((r) => setTimeout(r, ms));
 }
 
+/** Like `delay`, but rejects as soon as `signal` aborts. */
+function abortableDelay(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const t = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(t);
+      reject(signal.reason);
+    });
+  });
+}
+
 afterEach(() => {
   vi.useRealTimers();
 });
@@ -257,23 +274,1866 @@ describe('createLimit (public wrapper)', () => {
   });
 });
 
-describe('Limiter (input validation)', () => {
-  it('throws RangeError on invalid limit', () => {
-    expect(() => new Limiter(0)).toThrow(RangeError);
-    expect(() => new Limiter(-1)).toThrow(RangeError);
-    expect(() => new Limiter(Number.NaN)).toThrow(RangeError);
+describe('Limiter (priority scheduling)', () => {
+  it('starts higher priority tasks first, FIFO among equal priorities', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+      await delay(10);
+    };
+
+    const tasks = [
+      limiter.run(task('hold')),
+      limiter.run(task('low-1')),
+      limiter.run(task('high-1'), { priority: 10 }),
+      limiter.run(task('low-2')),
+      limiter.run(task('high-2'), { priority: 10 }),
+      limiter.run(task('mid'), { priority: 5 }),
+    ];
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all(tasks);
+
+    expect(order).toEqual(['hold', 'high-1', 'high-2', 'mid', 'low-1', 'low-2']);
   });
 
-  it('throws RangeError on invalid maxQueue', () => {
-    expect(() => new Limiter(1, { maxQueue: -1 })).toThrow(RangeError);
-    expect(() => new Limiter(1, { maxQueue: Number.NaN })).toThrow(RangeError);
+  it('ages long waiters so they are not starved', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { priorityAgingMs: 100 });
+    const order: string[] = [];
+
+    const hold = limiter.run(async () => delay(1000));
+    const old = limiter.run(async () => {
+      order.push('old');
+    });
+
+    await vi.advanceTimersByTimeAsync(900);
+
+    // Waited 900ms => effective priority 9 > 5
+    const fresh = limiter.run(async () => {
+      order.push('fresh');
+    }, { priority: 5 });
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([hold, old, fresh]);
+
+    expect(order).toEqual(['old', 'fresh']);
+  });
+
+  it('keeps strict priority order when aging is disabled', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { priorityAgingMs: Number.POSITIVE_INFINITY });
+    const order: string[] = [];
+
+    const hold = limiter.run(async () => delay(1000));
+    const old = limiter.run(async () => {
+      order.push('old');
+    });
+
+    await vi.advanceTimersByTimeAsync(900);
+
+    const fresh = limiter.run(async () => {
+      order.push('fresh');
+    }, { priority: 1 });
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([hold, old, fresh]);
+
+    expect(order).toEqual(['fresh', 'old']);
+  });
+
+  it('does not age waiters by default', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const order: string[] = [];
+
+    const hold = limiter.run(async () => delay(60_000));
+    const old = limiter.run(async () => {
+      order.push('old');
+    });
+
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    const fresh = limiter.run(async () => {
+      order.push('fresh');
+    }, { priority: 1 });
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    await Promise.all([hold, old, fresh]);
+
+    expect(order).toEqual(['fresh', 'old']);
+  });
+
+  it('removes aborted / timed-out prioritized entries without blocking others', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const order: string[] = [];
+
+    const hold = limiter.run(async () => delay(100));
+
+    const ac = new AbortController();
+    const aborted = limiter.run(async () => order.push('aborted'), {
+      priority: 10,
+      signal: ac.signal,
+    });
+    const timedOut = limiter.run(async () => order.push('timed-out'), {
+      priority: 5,
+      queueTimeoutMs: 20,
+    });
+    const low = limiter.run(async () => order.push('low'));
+
+    const asrt1 = expect(aborted).rejects.toBeInstanceOf(AbortError);
+    const asrt2 = expect(timedOut).rejects.toBeInstanceOf(QueueTimeoutError);
+
+    ac.abort();
+    expect(limiter.pendingCount).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(30);
+    expect(limiter.pendingCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([asrt1, asrt2, hold, low]);
+
+    expect(order).toEqual(['low']);
+    expect(limiter.pendingCount).toBe(0);
+  });
+});
+
+describe('Limiter (runtime limit changes)', () => {
+  it('raising the limit starts queued tasks immediately', async () => {
+    vi.useFakeTimers();
+
+    const limit = createLimit(1);
+    expect(limit.limit).toBe(1);
+
+    const tasks = Array.from({ length: 4 }, () => limit(async () => delay(100)));
+    expect(limit.activeCount).toBe(1);
+    expect(limit.pendingCount).toBe(3);
+
+    limit.setLimit(3);
+    expect(limit.limit).toBe(3);
+    expect(limit.limiter.limit).toBe(3);
+    expect(limit.activeCount).toBe(3);
+    expect(limit.pendingCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(300);
+    await Promise.all(tasks);
+    expect(limit.activeCount).toBe(0);
+  });
+
+  it('lowering the limit lets running tasks finish and holds new starts', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(3);
+    let running = 0;
+    const samples: number[] = [];
+
+    const tasks = Array.from({ length: 6 }, () =>
+      limiter.run(async () => {
+        running++;
+        samples.push(running);
+        await delay(100);
+        running--;
+      })
+    );
+
+    expect(limiter.activeCount).toBe(3);
+
+    limiter.setLimit(1);
+    expect(limiter.activeCount).toBe(3);
+    expect(limiter.pendingCount).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(100);
+    // All three running tasks finished; only one new task may start.
+    expect(limiter.activeCount).toBe(1);
+    expect(limiter.pendingCount).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(tasks);
+
+    expect(samples.slice(3)).toEqual([1, 1, 1]);
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('setLimit rejects invalid values and keeps the previous limit', () => {
+    const limiter = new Limiter(2);
+
+    expect(() => limiter.setLimit(0)).toThrow(RangeError);
+    expect(() => limiter.setLimit(Number.NaN)).toThrow(RangeError);
+    expect(limiter.limit).toBe(2);
+  });
+});
+
+describe('Limiter (running task cancellation)', () => {
+  it('passes an AbortSignal to the task', async () => {
+    const limiter = new Limiter(1);
+
+    const signal = await limiter.run((s) => s);
+    expect(signal).toBeInstanceOf(AbortSignal);
+    expect(signal.aborted).toBe(false);
+  });
+
+  it('runTimeoutMs aborts the task signal and rejects with RunTimeoutError; the slot frees once the task settles', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { runTimeoutMs: 50 });
+    let taskSignal: AbortSignal | undefined;
+
+    const slow = limiter.run(async (signal) => {
+      taskSignal = signal;
+      await delay(100);
+    });
+    const next = limiter.run(async () => 'next');
+
+    const asrt = expect(slow).rejects.toBeInstanceOf(RunTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(60);
+    await asrt;
+
+    expect(taskSignal!.aborted).toBe(true);
+    expect(taskSignal!.reason).toBeInstanceOf(RunTimeoutError);
+    expect(limiter.activeCount).toBe(1);
+    expect(limiter.pendingCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(40);
+    await expect(next).resolves.toBe('next');
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('tasks that ignore their signal never exceed the limit after a run timeout', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { runTimeoutMs: 10 });
+    let running = 0;
+    let maxRunning = 0;
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(50);
+      running--;
+    };
+
+    const all = [limiter.run(task), limiter.run(task), limiter.run(task)].map((p) =>
+      p.catch((e) => e)
+    );
+
+    await vi.advanceTimersByTimeAsync(200);
+    const results = await Promise.all(all);
+
+    expect(results.every((e) => e instanceof RunTimeoutError)).toBe(true);
+    expect(maxRunning).toBe(1);
+  });
+
+  it('releaseOnCancel frees the slot as soon as the run times out', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { runTimeoutMs: 50, releaseOnCancel: true });
+    let taskSignal: AbortSignal | undefined;
+
+    const hung = limiter.run(
+      (signal) =>
+        new Promise<void>(() => {
+          taskSignal = signal;
+        })
+    );
+    const next = limiter.run(async () => 'next');
+
+    const asrt = expect(hung).rejects.toBeInstanceOf(RunTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(60);
+    await asrt;
+
+    expect(taskSignal!.aborted).toBe(true);
+    expect(taskSignal!.reason).toBeInstanceOf(RunTimeoutError);
+    await expect(next).resolves.toBe('next');
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('per-run runTimeoutMs overrides the limiter default', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { runTimeoutMs: 10 });
+
+    const p = limiter.run(async () => {
+      await delay(50);
+      return 'ok';
+    }, { runTimeoutMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(60);
+    await expect(p).resolves.toBe('ok');
+  });
+
+  it('caller signal covers both queue wait and execution', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const ac = new AbortController();
+    const signals: AbortSignal[] = [];
+
+    const running = limiter.run(async (signal) => {
+      signals.push(signal);
+      await abortableDelay(1000, signal);
+    }, { signal: ac.signal });
+    const queued = limiter.run(async () => delay(1), { signal: ac.signal });
+
+    const asrt1 = expect(running).rejects.toBeInstanceOf(AbortError);
+    const asrt2 = expect(queued).rejects.toBeInstanceOf(AbortError);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(signals).toHaveLength(1);
+
+    ac.abort();
+    await Promise.all([asrt1, asrt2]);
+
+    expect(signals[0].aborted).toBe(true);
+    expect(limiter.activeCount).toBe(0);
+    expect(limiter.pendingCount).toBe(0);
+  });
+
+  it('task errors (sync and async) propagate and release the slot', async () => {
+    const limiter = new Limiter(1);
+
+    await expect(
+      limiter.run(() => {
+        throw new Error('sync');
+      })
+    ).rejects.toThrow('sync');
+    await expect(limiter.run(async () => Promise.reject(new Error('async')))).rejects.toThrow(
+      'async'
+    );
+
+    expect(limiter.activeCount).toBe(0);
+  });
+});
+
+describe('Limiter (interval cap)', () => {
+  it('enforces both the concurrency limit and starts per window', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(10, { intervalCap: 2, intervalMs: 100 });
+    const startedAt: number[] = [];
+    const t0 = Date.now();
+
+    const tasks = Array.from({ length: 5 }, () =>
+      limiter.run(async () => {
+        startedAt.push(Date.now() - t0);
+        await delay(10);
+      })
+    );
+
+    expect(limiter.activeCount).toBe(2);
+    expect(limiter.pendingCount).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(tasks);
+
+    expect(startedAt).toEqual([0, 0, 100, 100, 200]);
+    expect(limiter.pendingCount).toBe(0);
+  });
+
+  it('rate-limited entries honor queueTimeoutMs, abort and onIdle', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(10, { intervalCap: 1, intervalMs: 100 });
+    const ran: string[] = [];
+
+    const first = limiter.run(async () => ran.push('first'));
+
+    const ac = new AbortController();
+    const aborted = limiter.run(async () => ran.push('aborted'), { signal: ac.signal });
+    const timedOut = limiter.run(async () => ran.push('timed-out'), { queueTimeoutMs: 50 });
+    const last = limiter.run(async () => ran.push('last'));
+
+    const asrt1 = expect(aborted).rejects.toBeInstanceOf(AbortError);
+    const asrt2 = expect(timedOut).rejects.toBeInstanceOf(QueueTimeoutError);
+
+    expect(limiter.pendingCount).toBe(3);
+    ac.abort();
+
+    const idle = limiter.onIdle();
+
+    await vi.advanceTimersByTimeAsync(60);
+    expect(limiter.pendingCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([first, asrt1, asrt2, last, idle]);
+
+    expect(ran).toEqual(['first', 'last']);
+  });
+
+  it('starts a task queued by the rate window while nothing runs', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(10, { intervalCap: 1, intervalMs: 100 });
+    const t0 = Date.now();
+
+    await limiter.run(async () => 'a');
+    await vi.advanceTimersByTimeAsync(20);
+
+    let startedAt: number | undefined;
+    const b = limiter.run(async () => {
+      startedAt = Date.now() - t0;
+    });
+    expect(limiter.pendingCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await b;
+
+    expect(startedAt).toBe(100);
+    expect(limiter.pendingCount).toBe(0);
+  });
+});
+
+describe('Limiter (weighted tasks)', () => {
+  it('counts task weights against the limit with strict head-of-line order', async () => {
+    vi.useFakeTimers();
+
+    const limit = createLimit(5);
+    const order: string[] = [];
+    const task = (name: string, ms: number) => async () => {
+      order.push(name);
+      await delay(ms);
+    };
+
+    const tasks = [
+      limit(task('heavy-1', 100), { weight: 3 }),
+      limit(task('heavy-2', 100), { weight: 3 }),
+      limit(task('light', 100), { weight: 1 }),
+    ];
+
+    // light (1) would fit next to heavy-1 (3), but heavy-2 is ahead of it.
+    expect(limit.activeCount).toBe(1);
+    expect(limit.activeWeight).toBe(3);
+    expect(limit.pendingCount).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(order).toEqual(['heavy-1', 'heavy-2', 'light']);
+    expect(limit.activeCount).toBe(2);
+    expect(limit.activeWeight).toBe(4);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all(tasks);
+    expect(limit.activeWeight).toBe(0);
+  });
+
+  it('removing a blocked heavy entry lets the entries behind it start', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(4);
+    const ran: string[] = [];
+
+    const hold = limiter.run(async () => delay(100), { weight: 3 });
+
+    const ac = new AbortController();
+    const heavy = limiter.run(async () => ran.push('heavy'), { weight: 4, signal: ac.signal });
+    const light = limiter.run(async () => ran.push('light'));
+
+    const asrt = expect(heavy).rejects.toBeInstanceOf(AbortError);
+    ac.abort();
+    await asrt;
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(ran).toEqual(['light']);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([hold, light]);
+  });
+
+  it('runs a queued task heavier than a lowered limit alone (no head-of-line deadlock)', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(4);
+    const ran: Array<[string, number]> = [];
+    const task = (name: string) => async () => {
+      ran.push([name, limiter.activeWeight]);
+      await delay(10);
+    };
+
+    const hold = limiter.run(async () => delay(100));
+    const heavy = limiter.run(task('heavy'), { weight: 4 });
+    const light = limiter.run(task('light'));
+
+    limiter.setLimit(2);
+    expect(limiter.pendingCount).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([hold, heavy, light]);
+
+    expect(ran).toEqual([
+      ['heavy', 4],
+      ['light', 1],
+    ]);
+    expect(limiter.pendingCount).toBe(0);
+  });
+
+  it('rejects invalid weights and weights larger than the limit up front', async () => {
+    const limiter = new Limiter(10);
+
+    await expect(limiter.run(async () => 1, { weight: 11 })).rejects.toThrow(
+      'weight (11) exceeds the limiter limit (10)'
+    );
+    await expect(limiter.run(async () => 1, { weight: 0 })).rejects.toBeInstanceOf(RangeError);
+    await expect(limiter.run(async () => 1, { weight: Number.NaN })).rejects.toBeInstanceOf(
+      RangeError
+    );
+    await expect(limiter.run(async () => 1, { weight: 10 })).resolves.toBe(1);
+  });
+});
+
+describe('Limiter (lifecycle events)', () => {
+  it('emits enqueue / start / settle / idle with timing info', async () => {
+    vi.useFakeTimers();
+
+    const limit = createLimit(1);
+    const events: Array<[string, unknown]> = [];
+
+    limit.on('enqueue', (e) => events.push(['enqueue', e]));
+    limit.on('start', (e) => events.push(['start', e]));
+    limit.on('settle', (e) => events.push(['settle', e]));
+    limit.on('idle', () => events.push(['idle', undefined]));
+
+    const a = limit(async () => delay(100));
+    const b = limit(async () => {
+      await delay(50);
+      throw new Error('boom');
+    });
+    const asrt = expect(b).rejects.toThrow('boom');
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([a, asrt]);
+
+    expect(events).toEqual([
+      ['enqueue', { priority: 0, weight: 1, pendingCount: 1 }],
+      ['start', { waitMs: 0, priority: 0, weight: 1, activeCount: 1, pendingCount: 1 }],
+      ['settle', { status: 'fulfilled', waitMs: 0, runMs: 100 }],
+      ['start', { waitMs: 100, priority: 0, weight: 1, activeCount: 1, pendingCount: 0 }],
+      ['settle', { status: 'rejected', error: expect.any(Error), waitMs: 100, runMs: 50 }],
+      ['idle', undefined],
+    ]);
+  });
+
+  it('emits reject for overflow, queue timeout and abort', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { maxQueue: 2 });
+    const rejects: Array<{ reason: string; waitMs: number }> = [];
+    limiter.on('reject', ({ reason, waitMs }) => rejects.push({ reason, waitMs }));
+
+    const hold = limiter.run(async () => delay(100));
+
+    const ac = new AbortController();
+    const aborted = limiter.run(async () => 1, { signal: ac.signal });
+    const timedOut = limiter.run(async () => 1, { queueTimeoutMs: 30 });
+    const overflowed = limiter.run(async () => 1);
+
+    const asrts = [
+      expect(aborted).rejects.toBeInstanceOf(AbortError),
+      expect(timedOut).rejects.toBeInstanceOf(QueueTimeoutError),
+      expect(overflowed).rejects.toBeInstanceOf(QueueOverflowError),
+    ];
+
+    await vi.advanceTimersByTimeAsync(10);
+    ac.abort();
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([hold, ...asrts]);
+
+    expect(rejects).toEqual([
+      { reason: 'overflow', waitMs: 0 },
+      { reason: 'abort', waitMs: 10 },
+      { reason: 'timeout', waitMs: 30 },
+    ]);
+  });
+
+  it('throwing listeners do not break the limiter; unsubscribe stops delivery', async () => {
+    const limiter = new Limiter(1);
+    const seen: string[] = [];
+
+    limiter.on('start', () => {
+      throw new Error('listener bug');
+    });
+    const off = limiter.on('settle', () => seen.push('settle'));
+
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+    off();
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+
+    expect(seen).toEqual(['settle']);
+    expect(limiter.activeCount).toBe(0);
+  });
+});
+
+describe('Limiter (pause / resume)', () => {
+  it('lets running tasks finish but starts nothing while paused', async () => {
+    vi.useFakeTimers();
+
+    const limit = createLimit(2);
+    const started: string[] = [];
+    const task = (name: string) => async () => {
+      started.push(name);
+      await delay(50);
+    };
+
+    const running = limit(task('running'));
+    limit.pause();
+    expect(limit.isPaused).toBe(true);
+
+    // A free slot is available, but new calls queue while paused.
+    const queued = [limit(task('a')), limit(task('b'))];
+    expect(limit.activeCount).toBe(1);
+    expect(limit.pendingCount).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await running;
+    expect(started).toEqual(['running']);
+    expect(limit.activeCount).toBe(0);
+
+    limit.resume();
+    expect(limit.isPaused).toBe(false);
+    expect(limit.activeCount).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all(queued);
+    expect(started).toEqual(['running', 'a', 'b']);
+  });
+
+  it('queue timeouts and aborts keep working; onIdle waits for resume', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    limiter.pause();
+
+    const ac = new AbortController();
+    const aborted = limiter.run(async () => 1, { signal: ac.signal });
+    const timedOut = limiter.run(async () => 1, { queueTimeoutMs: 20 });
+    const kept = limiter.run(async () => 'kept');
+
+    const asrt1 = expect(aborted).rejects.toBeInstanceOf(AbortError);
+    const asrt2 = expect(timedOut).rejects.toBeInstanceOf(QueueTimeoutError);
+    ac.abort();
+
+    const done: string[] = [];
+    const idle = limiter.onIdle().then(() => done.push('idle'));
+
+    await vi.advanceTimersByTimeAsync(50);
+    await Promise.all([asrt1, asrt2]);
+    expect(limiter.pendingCount).toBe(1);
+    expect(done).toEqual([]);
+
+    limiter.resume();
+    await expect(kept).resolves.toBe('kept');
+    await idle;
+    expect(done).toEqual(['idle']);
+  });
+});
+
+describe('Limiter (close)', () => {
+  it('drain mode runs queued tasks, rejects new calls and resolves when settled', async () => {
+    vi.useFakeTimers();
+
+    const limit = createLimit(1);
+    const ran: string[] = [];
+
+    const tasks = [
+      limit(async () => {
+        await delay(50);
+        ran.push('running');
+      }),
+      limit(async () => {
+        await delay(50);
+        ran.push('queued');
+      }),
+    ];
+
+    const closed = limit.close();
+    expect(limit.isClosed).toBe(true);
+
+    await expect(limit(async () => 1)).rejects.toBeInstanceOf(LimiterClosedError);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all([closed, ...tasks]);
+
+    expect(ran).toEqual(['running', 'queued']);
+    expect(limit.activeCount).toBe(0);
+  });
+
+  it('reject mode fails every pending entry at once but lets running tasks finish', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const reasons: string[] = [];
+    limiter.on('reject', (e) => reasons.push(e.reason));
+
+    const running = limiter.run(async () => {
+      await delay(50);
+      return 'done';
+    });
+    const queued = [limiter.run(async () => 1), limiter.run(async () => 2)];
+    const asrts = queued.map((p) => expect(p).rejects.toBeInstanceOf(LimiterClosedError));
+
+    const closed = limiter.close({ mode: 'reject' });
+    await Promise.all(asrts);
+    expect(limiter.pendingCount).toBe(0);
+    expect(limiter.activeCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(running).resolves.toBe('done');
+    await closed;
+
+    expect(reasons).toEqual(['closed', 'closed']);
+    await expect(limiter.run(async () => 1)).rejects.toMatchObject({
+      code: 'ERR_ASYNC_LIMITER_CLOSED',
+    });
+  });
+
+  it('close honors timeoutMs and validates its options', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const hold = limiter.run(async () => delay(200));
+
+    const closed = limiter.close({ timeoutMs: 50 });
+    const asrt = expect(closed).rejects.toBeInstanceOf(IdleTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(60);
+    await asrt;
+    expect(limiter.isClosed).toBe(true);
+
+    await expect(limiter.close({ mode: 'nope' as any })).rejects.toBeInstanceOf(RangeError);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await hold;
+  });
+
+  it('supports await using (Symbol.asyncDispose)', async () => {
+    const ran: string[] = [];
+    let outer: Limiter;
+
+    {
+      await using limiter = new Limiter(1);
+      outer = limiter;
+      void limiter.run(async () => {
+        await Promise.resolve();
+        ran.push('task');
+      });
+    }
+
+    expect(ran).toEqual(['task']);
+    expect(outer.isClosed).toBe(true);
+  });
+});
+
+describe('Limiter (retry)', () => {
+  const retry = { attempts: 3, minDelayMs: 100, jitter: false };
+
+  it('releases the slot during backoff and queues again for the next attempt', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const order: string[] = [];
+    let calls = 0;
+
+    const flaky = limiter.run(
+      async () => {
+        calls++;
+        order.push(`flaky:${calls}`);
+        await delay(10);
+        if (calls < 3) throw new Error(`fail:${calls}`);
+        return 'ok';
+      },
+      { retry }
+    );
+
+    await vi.advanceTimersByTimeAsync(10);
+    // In backoff: no slot held, so another task can run meanwhile.
+    expect(limiter.activeCount).toBe(0);
+    const other = limiter.run(async () => {
+      order.push('other');
+      await delay(50);
+    });
+
+    await vi.advanceTimersByTimeAsync(500);
+    await expect(flaky).resolves.toBe('ok');
+    await other;
+
+    // backoffs: 100ms, then 200ms
+    expect(order).toEqual(['flaky:1', 'other', 'flaky:2', 'flaky:3']);
+  });
+
+  it('rejects with RetryError carrying the attempt history', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { retry });
+    let calls = 0;
+
+    const p = limiter.run(async () => {
+      throw new Error(`fail:${++calls}`);
+    });
+    const asrt = expect(p).rejects.toSatisfy((err: unknown) => {
+      expect(err).toBeInstanceOf(RetryError);
+      const e = err as RetryError;
+      expect(e.code).toBe('ERR_ASYNC_LIMITER_RETRY_FAILED');
+      expect(e.attempts.map((a) => [a.attempt, (a.error as Error).message, a.delayMs])).toEqual([
+        [1, 'fail:1', 100],
+        [2, 'fail:2', 200],
+        [3, 'fail:3', undefined],
+      ]);
+      expect((e.cause as Error).message).toBe('fail:3');
+      return true;
+    });
+
+    await vi.advanceTimersByTimeAsync(400);
+    await asrt;
+
+    // shouldRetry / maxTotalMs stop early
+    const noRetry = limiter.run(
+      async () => {
+        throw new Error('fatal');
+      },
+      { retry: { ...retry, shouldRetry: (err) => (err as Error).message !== 'fatal' } }
+    );
+    await expect(noRetry).rejects.toSatisfy((err) => (err as RetryError).attempts.length === 1);
+
+    const budget = limiter.run(
+      async () => {
+        throw new Error('slow');
+      },
+      { retry: { ...retry, maxTotalMs: 150 } }
+    );
+    const asrt2 = expect(budget).rejects.toSatisfy(
+      (err) => (err as RetryError).attempts.length === 2
+    );
+    await vi.advanceTimersByTimeAsync(400);
+    await asrt2;
+  });
+
+  it('attempts: 1 disables retries and rejects with the original error', async () => {
+    const limiter = new Limiter(1, { retry: { attempts: 3 } });
+    const original = new Error('once');
+    let calls = 0;
+
+    const p = limiter.run(
+      async () => {
+        calls++;
+        throw original;
+      },
+      { retry: { attempts: 1 } }
+    );
+
+    await expect(p).rejects.toBe(original);
+    expect(calls).toBe(1);
+  });
+
+  it('abort cancels a pending backoff; onIdle waits for backoffs', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const ac = new AbortController();
+    let calls = 0;
+
+    const p = limiter.run(
+      async () => {
+        calls++;
+        throw new Error('fail');
+      },
+      { retry, signal: ac.signal }
+    );
+    const asrt = expect(p).rejects.toBeInstanceOf(AbortError);
+
+    let idle = false;
+    const idleP = limiter.onIdle().then(() => (idle = true));
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(limiter.activeCount).toBe(0);
+    expect(idle).toBe(false);
+
+    ac.abort();
+    await asrt;
+    await idleP;
+    expect(calls).toBe(1);
+  });
+
+  it('close({ mode: "reject" }) cancels backoffs; drain mode lets retries finish', async () => {
+    vi.useFakeTimers();
+
+    const rejecting = new Limiter(1, { retry });
+    const p = rejecting.run(async () => {
+      throw new Error('fail');
+    });
+    const asrt = expect(p).rejects.toBeInstanceOf(LimiterClosedError);
+
+    await vi.advanceTimersByTimeAsync(10);
+    await rejecting.close({ mode: 'reject' });
+    await asrt;
+
+    const draining = new Limiter(1, { retry });
+    let calls = 0;
+    const q = draining.run(async () => {
+      if (++calls < 2) throw new Error('fail');
+      return calls;
+    });
+
+    await vi.advanceTimersByTimeAsync(10);
+    const closed = draining.close();
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(q).resolves.toBe(2);
+    await closed;
+  });
+
+  it('validates retry options', () => {
+    expect(() => new Limiter(1, { retry: { attempts: 0 } })).toThrow(RangeError);
+    expect(() => new Limiter(1, { retry: { factor: 0.5 } })).toThrow(RangeError);
+    expect(() => new Limiter(1, { retry: { minDelayMs: -1 } })).toThrow(RangeError);
+  });
+});
+
+describe('Limiter (adaptive limit)', () => {
+  it('grows additively while saturated and shrinks multiplicatively on overload', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(2, { adaptive: { minLimit: 1, maxLimit: 4 } });
+    const adjustments: string[] = [];
+    limiter.on('adjust', (e) => adjustments.push(`${e.reason}:${e.previous}->${e.limit}`));
+
+    // A backlog keeps the limiter saturated: +1 after 2 successes, +1 after 3 more, capped at 4.
+    const ok = Array.from({ length: 12 }, () => limiter.run(async () => delay(10)));
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all(ok);
+    expect(limiter.limit).toBe(4);
+
+    const failing = limiter.run(async () => {
+      await delay(10);
+      throw new Error('503');
+    });
+    const asrt = expect(failing).rejects.toThrow('503');
+    await vi.advanceTimersByTimeAsync(10);
+    await asrt;
+
+    expect(limiter.limit).toBe(2);
+    expect(adjustments).toEqual(['increase:2->3', 'increase:3->4', 'overload:4->2']);
+  });
+
+  it('does not grow while unsaturated and decreases once per window of concurrent failures', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(8, {
+      adaptive: { minLimit: 1, maxLimit: 16, isOverload: (err) => (err as Error).message === 'busy' },
+    });
+
+    for (let i = 0; i < 20; i++) await limiter.run(async () => 1);
+    expect(limiter.limit).toBe(8);
+
+    const busy = Array.from({ length: 4 }, () =>
+      limiter.run(async () => {
+        await delay(10);
+        throw new Error('busy');
+      })
+    );
+    const other = limiter.run(async () => {
+      throw new Error('bad request');
+    });
+    const asrts = [...busy, other].map((p) => expect(p).rejects.toThrow());
+
+    await vi.advanceTimersByTimeAsync(10);
+    await Promise.all(asrts);
+
+    // 4 overloads that started together halve the limit once; non-overload errors are ignored.
+    expect(limiter.limit).toBe(4);
+  });
+
+  it('accepts weights up to maxLimit after the limit shrinks and runs them alone', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(4, { adaptive: { minLimit: 1, maxLimit: 8 } });
+
+    for (const error of ['a', 'b']) {
+      await expect(
+        limiter.run(async () => {
+          throw new Error(error);
+        })
+      ).rejects.toThrow(error);
+      await vi.advanceTimersByTimeAsync(1);
+    }
+    expect(limiter.limit).toBe(1);
+
+    const light = limiter.run(async () => delay(10));
+    const heavy = limiter.run(async () => limiter.activeWeight, { weight: 3 });
+    expect(limiter.pendingCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(10);
+    await light;
+    await expect(heavy).resolves.toBe(3);
+    (await limiter.acquire({ weight: 8 })).release();
+    await expect(limiter.run(async () => 1, { weight: 9 })).rejects.toThrow(RangeError);
+  });
+
+  it('treats slow runs as overload and exposes the limit in stats()', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(4, {
+      stats: true,
+      adaptive: { maxLimit: 4, latencyThresholdMs: 100, decrease: 0.75 },
+    });
+    const reasons: string[] = [];
+    limiter.on('adjust', (e) => reasons.push(e.reason));
+
+    const slow = limiter.run(async () => delay(150));
+    await vi.advanceTimersByTimeAsync(150);
+    await slow;
+
+    expect(reasons).toEqual(['latency']);
+    expect(limiter.stats()?.limit).toBe(3);
+  });
+
+  it('does not count cancellations as overload by default', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(8, { adaptive: { maxLimit: 16 } });
+    const adjustments: string[] = [];
+    limiter.on('adjust', (e) => adjustments.push(e.reason));
+
+    // Leaving the stream early aborts the items still running.
+    const consume = (async () => {
+      const seen: number[] = [];
+      const items = Array.from({ length: 20 }, (_, i) => i);
+      for await (const n of limiter.stream(items, async (i) => delay(10 * (i + 1)).then(() => i))) {
+        seen.push(n);
+        if (seen.length === 2) break;
+      }
+      return seen;
+    })();
+
+    await vi.advanceTimersByTimeAsync(20);
+    await expect(consume).resolves.toEqual([0, 1]);
+
+    const ac = new AbortController();
+    const aborted = limiter.run(async () => delay(100), { signal: ac.signal });
+    ac.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+
+    expect(adjustments).toEqual([]);
+    expect(limiter.limit).toBe(8);
+  });
+
+  it('validates adaptive options', () => {
+    expect(() => new Limiter(5, { adaptive: { maxLimit: 4 } })).toThrow(RangeError);
+    expect(() => new Limiter(2, { adaptive: { minLimit: 3, maxLimit: 2 } })).toThrow(RangeError);
+    expect(() => new Limiter(2, { adaptive: { maxLimit: 4, decrease: 1 } })).toThrow(RangeError);
+    expect(() => new Limiter(2, { adaptive: { maxLimit: 4, increase: 0 } })).toThrow(RangeError);
+  });
+});
+
+describe('Limiter.runAll (composed limiters)', () => {
+  it('holds a slot of every limiter and never deadlocks on opposite orders', async () => {
+    vi.useFakeTimers();
+
+    const global = new Limiter(2);
+    const service = new Limiter(1);
+    let running = 0;
+    let maxRunning = 0;
+
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      expect(global.activeCount).toBeGreaterThanOrEqual(1);
+      expect(service.activeCount).toBe(1);
+      await delay(10);
+      running--;
+    };
+
+    const tasks = [
+      Limiter.runAll([global, service], task),
+      Limiter.runAll([service, global], task),
+      Limiter.runAll([service, global, service], task),
+    ];
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all(tasks);
+
+    expect(maxRunning).toBe(1);
+    expect(global.activeCount + service.activeCount).toBe(0);
+  });
+
+  it('queueTimeoutMs covers the combined wait and releases slots acquired so far', async () => {
+    vi.useFakeTimers();
+
+    const a = new Limiter(1);
+    const b = new Limiter(1);
+    const hold = b.run(async () => delay(100));
+
+    const p = Limiter.runAll([a, b], async () => 1, { queueTimeoutMs: 50 });
+    const asrt = expect(p).rejects.toBeInstanceOf(QueueTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(a.activeCount).toBe(1);
+    expect(b.pendingCount).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(50);
+    await asrt;
+    expect(a.activeCount).toBe(0);
+    expect(b.pendingCount).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await hold;
+  });
+
+  it('signal aborts the combined wait and the task', async () => {
+    vi.useFakeTimers();
+
+    const a = new Limiter(1);
+    const b = new Limiter(1);
+    const hold = b.run(async () => delay(100));
+
+    const ac = new AbortController();
+    const p = Limiter.runAll([a, b], async () => 1, { signal: ac.signal });
+    const asrt = expect(p).rejects.toBeInstanceOf(AbortError);
+
+    await vi.advanceTimersByTimeAsync(10);
+    ac.abort();
+    await asrt;
+    expect(a.activeCount).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await hold;
+
+    await expect(Limiter.runAll([], async () => 1)).rejects.toThrow(RangeError);
+  });
+
+  it('a failed wait on one limiter is not a failed run of the others', async () => {
+    vi.useFakeTimers();
+
+    const a = new Limiter(4, { stats: true, adaptive: { maxLimit: 4 } });
+    const b = new Limiter(1, { stats: true });
+    const hold = b.run(async () => delay(100));
+
+    const p = Limiter.runAll([a, b], async () => 1, { queueTimeoutMs: 50 });
+    const asrt = expect(p).rejects.toBeInstanceOf(QueueTimeoutError);
+    await vi.advanceTimersByTimeAsync(50);
+    await asrt;
+
+    expect(a.stats()).toMatchObject({ started: 0, failed: 0, timedOut: 0 });
+    expect(b.stats()).toMatchObject({ timedOut: 1 });
+    expect(a.limit).toBe(4);
+
+    await vi.advanceTimersByTimeAsync(50);
+    await hold;
+
+    await expect(Limiter.runAll([a, b], async () => 'ok')).resolves.toBe('ok');
+    expect(a.stats()).toMatchObject({ started: 1, succeeded: 1 });
+    expect(b.stats()).toMatchObject({ started: 2, succeeded: 2 });
+  });
+});
+
+describe('Limiter (single-flight dedupe)', () => {
+  it('concurrent calls with the same key share one execution and one slot', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(2);
+    let calls = 0;
+    const load = async () => {
+      calls++;
+      await delay(100);
+      return { guild: 'config' };
+    };
+
+    const results = [
+      limiter.run(load, { key: 'guild:1' }),
+      limiter.run(load, { key: 'guild:1' }),
+      limiter.run(load, { key: 'guild:1' }),
+      limiter.run(load, { key: 'guild:2' }),
+    ];
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.activeCount).toBe(2);
+    expect(limiter.pendingCount).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(100);
+    const [a, b, c] = await Promise.all(results);
+    expect(calls).toBe(2);
+    expect(a).toBe(b);
+    expect(b).toBe(c);
+
+    // Not kept without ttlMs.
+    const again = limiter.run(load, { key: 'guild:1' });
+    await vi.advanceTimersByTimeAsync(100);
+    await again;
+    expect(calls).toBe(3);
+  });
+
+  it('shares errors, and keeps only fulfilled results for ttlMs', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    let calls = 0;
+
+    const failing = [1, 2].map(() =>
+      limiter.run(
+        async () => {
+          calls++;
+          throw new Error('down');
+        },
+        { key: 'k', ttlMs: 1000 }
+      )
+    );
+    await Promise.all(failing.map((p) => expect(p).rejects.toThrow('down')));
+    expect(calls).toBe(1);
+
+    const ok = () => limiter.run(async () => ++calls, { key: 'k', ttlMs: 1000 });
+    await expect(ok()).resolves.toBe(2);
+    await expect(ok()).resolves.toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(ok()).resolves.toBe(3);
+  });
+
+  it('expires kept results on time', async () => {
+    const clock = createTestClock();
+    const limiter = new Limiter(1, { clock });
+    let calls = 0;
+
+    const ok = () => limiter.run(async () => ++calls, { key: 'k', ttlMs: 30_000 });
+    await expect(ok()).resolves.toBe(1);
+
+    await clock.advance(29_999);
+    await expect(ok()).resolves.toBe(1);
+
+    await clock.advance(1);
+    await expect(ok()).resolves.toBe(2);
+  });
+
+  it('one caller aborting does not cancel the shared task; the last one does', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const signals: AbortSignal[] = [];
+    const task = async (signal: AbortSignal) => {
+      signals.push(signal);
+      await abortableDelay(100, signal);
+      return 'done';
+    };
+
+    const ac1 = new AbortController();
+    const ac2 = new AbortController();
+    const first = limiter.run(task, { key: 'k', signal: ac1.signal });
+    const second = limiter.run(task, { key: 'k', signal: ac2.signal });
+    const asrt1 = expect(first).rejects.toBeInstanceOf(AbortError);
+
+    await vi.advanceTimersByTimeAsync(10);
+    ac1.abort();
+    await asrt1;
+    expect(signals[0].aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(second).resolves.toBe('done');
+
+    const ac3 = new AbortController();
+    const third = limiter.run(task, { key: 'k', signal: ac3.signal });
+    const asrt3 = expect(third).rejects.toBeInstanceOf(AbortError);
+    await vi.advanceTimersByTimeAsync(10);
+    ac3.abort();
+    await asrt3;
+
+    expect(signals[1].aborted).toBe(true);
+    expect(limiter.activeCount).toBe(0);
+  });
+});
+
+describe('Limiter (overflow strategies)', () => {
+  async function fill(limiter: Limiter, priorities: number[]) {
+    const started: string[] = [];
+    const hold = limiter.run(async () => delay(100));
+    const queued = priorities.map((priority, i) =>
+      limiter.run(async () => void started.push(`q${i}`), { priority })
+    );
+    await vi.advanceTimersByTimeAsync(1);
+    return { hold, queued, started };
+  }
+
+  it('drop-oldest evicts the longest-queued task with QueueEvictedError', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { maxQueue: 2, overflowStrategy: 'drop-oldest' });
+    const rejected: string[] = [];
+    limiter.on('reject', (e) => rejected.push(e.reason));
+
+    const { hold, queued, started } = await fill(limiter, [0, 0]);
+    const asrt = expect(queued[0]).rejects.toBeInstanceOf(QueueEvictedError);
+
+    const newest = limiter.run(async () => void started.push('newest'));
+    await asrt;
+    expect(limiter.pendingCount).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([hold, queued[1], newest]);
+
+    expect(started).toEqual(['q1', 'newest']);
+    expect(rejected).toEqual(['evicted']);
+  });
+
+  it('evicting a blocked head starts what fits behind it, including the incoming task', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(4, { maxQueue: 1, overflowStrategy: 'drop-oldest' });
+    const hold = limiter.run(async () => delay(100), { weight: 2 });
+    const heavy = limiter.run(async () => 'heavy', { weight: 3 });
+    const asrt = expect(heavy).rejects.toBeInstanceOf(QueueEvictedError);
+
+    const light = limiter.run(async () => 'light');
+    await asrt;
+    await expect(light).resolves.toBe('light');
+    expect(limiter.pendingCount).toBe(0);
+
+    // Same within a full group: the evicted head no longer blocks the group behind it.
+    const grouped = new Limiter(4, { groupMaxQueue: 1, overflowStrategy: 'drop-oldest' });
+    const groupHold = grouped.run(async () => delay(100), { weight: 2 });
+    const groupHeavy = grouped.run(async () => 'heavy', { weight: 3, group: 'g' });
+    const asrt2 = expect(groupHeavy).rejects.toBeInstanceOf(QueueEvictedError);
+
+    const groupLight = grouped.run(async () => 'light', { group: 'g' });
+    await asrt2;
+    await expect(groupLight).resolves.toBe('light');
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([hold, groupHold]);
+  });
+
+  it('drop-lowest-priority evicts the task that would start last, or rejects the incoming one', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, {
+      maxQueue: 2,
+      overflowStrategy: 'drop-lowest-priority',
+      priorityAgingMs: Infinity,
+    });
+
+    const { hold, queued, started } = await fill(limiter, [5, 1]);
+    const asrt = expect(queued[1]).rejects.toBeInstanceOf(QueueEvictedError);
+
+    const urgent = limiter.run(async () => void started.push('urgent'), { priority: 3 });
+    await asrt;
+
+    await expect(limiter.run(async () => 1, { priority: 0 })).rejects.toBeInstanceOf(
+      QueueOverflowError
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([hold, queued[0], urgent]);
+    expect(started).toEqual(['q0', 'urgent']);
+  });
+
+  it('a callback picks the victim (or rejects the incoming task)', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, {
+      maxQueue: 2,
+      stats: true,
+      overflowStrategy: (queued, incoming) =>
+        incoming.weight > 1 ? incoming : queued.find((t) => t.priority === 7),
+    });
+
+    const { hold, queued } = await fill(limiter, [7, 0]);
+    const asrt = expect(queued[0]).rejects.toBeInstanceOf(QueueEvictedError);
+
+    const added = limiter.run(async () => 1);
+    await asrt;
+    await expect(limiter.run(async () => 1)).rejects.toBeInstanceOf(QueueOverflowError);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([hold, queued[1], added]);
+    expect(limiter.stats()).toMatchObject({ evicted: 1, overflowed: 1 });
+  });
+
+  it('validates overflowStrategy', () => {
+    expect(() => new Limiter(1, { overflowStrategy: 'drop-newest' as never })).toThrow(RangeError);
+  });
+});
+
+describe('Limiter (deadlines)', () => {
+  it('a deadline bounds the queue wait and the run; the task sees the time left', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { stats: true });
+    const rejected: string[] = [];
+    limiter.on('reject', (e) => rejected.push(e.reason));
+
+    const remaining: number[] = [];
+    let signal: AbortSignal | undefined;
+
+    const running = limiter.run(
+      async (s, ctx) => {
+        signal = s;
+        remaining.push(ctx.remainingMs());
+        await delay(100);
+        remaining.push(ctx.remainingMs());
+        await delay(100);
+      },
+      { deadlineMs: 150 }
+    );
+    const queued = limiter.run(async () => 1, { deadline: Date.now() + 50 });
+
+    const asrts = [
+      expect(running).rejects.toBeInstanceOf(DeadlineExceededError),
+      expect(queued).rejects.toBeInstanceOf(DeadlineExceededError),
+    ];
+
+    await vi.advanceTimersByTimeAsync(150);
+    await Promise.all(asrts);
+
+    expect(remaining).toEqual([150, 50]);
+    expect(signal!.aborted).toBe(true);
+    expect(rejected).toEqual(['deadline']);
+    expect(limiter.stats()).toMatchObject({ timedOut: 1, failed: 1 });
+
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(limiter.run(async (_s, ctx) => ctx.remainingMs())).resolves.toBe(Infinity);
+  });
+
+  it('edf mode starts the earliest deadline first and skips expired entries', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { queueMode: 'edf' });
+    const started: string[] = [];
+    const task = (name: string) => async () => void started.push(name);
+
+    const hold = limiter.run(async () => delay(100));
+    const queued = [
+      limiter.run(task('none')),
+      limiter.run(task('d500'), { deadlineMs: 500 }),
+      limiter.run(task('d200'), { deadlineMs: 200, priority: -1 }),
+      limiter.run(task('d300'), { deadlineMs: 300 }),
+    ];
+    // Its deadline is reached exactly when the slot frees up: rejected, not started.
+    const expired = limiter.run(task('d100'), { deadlineMs: 100 });
+    const asrt = expect(expired).rejects.toBeInstanceOf(DeadlineExceededError);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([hold, ...queued, asrt]);
+
+    expect(started).toEqual(['d200', 'd300', 'd500', 'none']);
+  });
+
+  it('retries stop at the deadline and it cannot be already past', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    let calls = 0;
+
+    const p = limiter.run(
+      async () => {
+        calls++;
+        throw new Error('boom');
+      },
+      { deadlineMs: 250, retry: { attempts: 5, minDelayMs: 100, jitter: false } }
+    );
+    const asrt = expect(p).rejects.toBeInstanceOf(RetryError);
+
+    // attempt 1 at 0ms, attempt 2 at 100ms; the next backoff (200ms) would end past the deadline.
+    await vi.advanceTimersByTimeAsync(300);
+    await asrt;
+    expect(calls).toBe(2);
+
+    await expect(
+      limiter.run(async () => 1, { deadline: Date.now() - 1 })
+    ).rejects.toBeInstanceOf(DeadlineExceededError);
+  });
+
+  it('validates deadline options and queueMode', async () => {
+    const limiter = new Limiter(1);
+    await expect(limiter.run(async () => 1, { deadline: NaN })).rejects.toThrow(RangeError);
+    await expect(limiter.run(async () => 1, { deadlineMs: -1 })).rejects.toThrow(RangeError);
+    expect(() => new Limiter(1, { queueMode: 'fifo' as never })).toThrow(RangeError);
+  });
+});
+
+describe('Limiter (acquire / permits)', () => {
+  it('a permit holds its slot until released; release is idempotent', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(2, { stats: true });
+    const permit = await limiter.acquire({ weight: 2 });
+
+    expect(permit.weight).toBe(2);
+    expect(limiter.activeWeight).toBe(2);
+
+    let ran = false;
+    const queued = limiter.run(async () => {
+      ran = true;
+    });
+    await vi.advanceTimersByTimeAsync(50);
+    expect(ran).toBe(false);
+    expect(limiter.pendingCount).toBe(1);
+
+    permit.release();
+    permit.release();
+    expect(permit.released).toBe(true);
+
+    await queued;
+    expect(ran).toBe(true);
+    expect(limiter.activeWeight).toBe(0);
+    expect(limiter.stats()).toMatchObject({ started: 2, succeeded: 2 });
+  });
+
+  it('using / await using release the permit at scope exit', async () => {
+    const limiter = new Limiter(1);
+
+    {
+      using permit = await limiter.acquire();
+      expect(permit.released).toBe(false);
+      expect(limiter.activeCount).toBe(1);
+    }
+    expect(limiter.activeCount).toBe(0);
+
+    {
+      await using permit = await limiter.acquire();
+      expect(limiter.activeCount).toBe(1);
+      permit.release();
+    }
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('waits reject like run(): queue timeout, abort, close', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const held = await limiter.acquire();
+
+    const timedOut = limiter.acquire({ queueTimeoutMs: 10 });
+    const asrt = expect(timedOut).rejects.toBeInstanceOf(QueueTimeoutError);
+    await vi.advanceTimersByTimeAsync(10);
+    await asrt;
+
+    const ac = new AbortController();
+    const aborted = limiter.acquire({ signal: ac.signal });
+    const asrt2 = expect(aborted).rejects.toBeInstanceOf(AbortError);
+    ac.abort();
+    await asrt2;
+
+    const closing = limiter.close();
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(LimiterClosedError);
+
+    held.release();
+    await closing;
+  });
+
+  it('debug mode warns about permits collected without release', async () => {
+    const callbacks: ((held: unknown) => void)[] = [];
+    class FakeRegistry {
+      constructor(cb: (held: unknown) => void) {
+        callbacks.push(cb);
+      }
+      held = new Map<object, unknown>();
+      register(target: object, held: unknown, token: object) {
+        this.held.set(token, held);
+      }
+      unregister(token: object) {
+        return this.held.delete(token);
+      }
+    }
+    vi.stubGlobal('FinalizationRegistry', FakeRegistry);
+    const warn = vi.spyOn(process, 'emitWarning').mockImplementation(() => {});
+
+    try {
+      const limiter = new Limiter(2, { debug: true });
+      const registry = (limiter as unknown as { leaks: { registry: FakeRegistry } }).leaks.registry;
+
+      const released = await limiter.acquire();
+      released.release();
+      expect(registry.held.size).toBe(0);
+
+      const leaked = await limiter.acquire();
+      // Simulate the permit being garbage-collected.
+      callbacks[0](registry.held.get(leaked));
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(String(warn.mock.calls[0][0])).toMatch(/garbage-collected without release/);
+    } finally {
+      warn.mockRestore();
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe('Limiter (fair queuing)', () => {
+  it("a noisy group's backlog does not hold back another group's task", async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const started: string[] = [];
+
+    const hold = limiter.run(async () => delay(10));
+    const noisy = Array.from({ length: 100 }, (_, i) =>
+      limiter.run(async () => void started.push(`noisy${i}`), { group: 'noisy' })
+    );
+    const quiet = limiter.run(async () => void started.push('quiet'), { group: 'quiet' });
+
+    expect(limiter.pendingCountOf('noisy')).toBe(100);
+    expect(limiter.pendingCountOf('quiet')).toBe(1);
+    expect(limiter.pendingCountOf('other')).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(10);
+    await Promise.all([hold, ...noisy, quiet]);
+
+    expect(started.slice(0, 3)).toEqual(['noisy0', 'quiet', 'noisy1']);
+  });
+
+  it('groupShares weight the turns between groups', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { groupShares: { a: 2 } });
+    const started: string[] = [];
+
+    const hold = limiter.run(async () => delay(10));
+    const tasks = ['a', 'b'].flatMap((group) =>
+      Array.from({ length: 6 }, () => limiter.run(async () => void started.push(group), { group }))
+    );
+
+    await vi.advanceTimersByTimeAsync(10);
+    await Promise.all([hold, ...tasks]);
+
+    expect(started.slice(0, 6)).toEqual(['a', 'b', 'a', 'a', 'b', 'a']);
+  });
+
+  it('groupMaxQueue rejects or evicts only within the full group', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1, { groupMaxQueue: 1, overflowStrategy: 'drop-oldest' });
+    const hold = limiter.run(async () => delay(10));
+
+    const first = limiter.run(async () => 'a1', { group: 'a' });
+    const other = limiter.run(async () => 'b1', { group: 'b' });
+    const asrt = expect(first).rejects.toBeInstanceOf(QueueEvictedError);
+
+    const second = limiter.run(async () => 'a2', { group: 'a' });
+    await asrt;
+    expect(limiter.pendingCountOf('a')).toBe(1);
+    expect(limiter.pendingCountOf('b')).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(Promise.all([hold, other, second])).resolves.toEqual([undefined, 'b1', 'a2']);
+
+    const strict = new Limiter(1, { groupMaxQueue: 1 });
+    const held = await strict.acquire();
+    const queued = strict.run(async () => 1, { group: 'a' });
+    await expect(strict.run(async () => 1, { group: 'a' })).rejects.toBeInstanceOf(
+      QueueOverflowError
+    );
+    held.release();
+    await queued;
+  });
+
+  it('groupMaxQueue: 0 rejects the first queued task of a group', async () => {
+    const limiter = new Limiter(1, { groupMaxQueue: 0 });
+    const held = await limiter.acquire();
+
+    await expect(limiter.run(async () => 1, { group: 'a' })).rejects.toBeInstanceOf(
+      QueueOverflowError
+    );
+    expect(limiter.pendingCountOf('a')).toBe(0);
+
+    held.release();
+    await expect(limiter.run(async () => 1, { group: 'a' })).resolves.toBe(1);
+  });
+
+  it('validates group options', async () => {
+    expect(() => new Limiter(1, { groupShares: { a: 0 } })).toThrow(RangeError);
+    expect(() => new Limiter(1, { groupMaxQueue: -1 })).toThrow(RangeError);
+    await expect(new Limiter(1).run(async () => 1, { group: 1 as never })).rejects.toThrow(
+      RangeError
+    );
+  });
+});
+
+describe('Limiter (test clock)', () => {
+  it('queue timeouts, deadlines and wait times follow the virtual clock', async () => {
+    const clock = createTestClock(1_000_000);
+    const limiter = new Limiter(1, { clock, stats: true });
+
+    let release!: () => void;
+    const hold = limiter.run(() => new Promise<void>((r) => (release = r)));
+
+    let settled = false;
+    const queued = limiter.run(async () => 1, { queueTimeoutMs: 1000 });
+    const late = limiter.run(async () => 2, { deadline: clock.now() + 500 });
+    queued.catch(() => (settled = true));
+
+    const asrts = [
+      expect(queued).rejects.toBeInstanceOf(QueueTimeoutError),
+      expect(late).rejects.toBeInstanceOf(DeadlineExceededError),
+    ];
+
+    await clock.advance(999);
+    expect(settled).toBe(false);
+    expect(limiter.pendingCount).toBe(1);
+
+    await clock.advance(1);
+    await Promise.all(asrts);
+    expect(limiter.stats().waitMs).toMatchObject({ count: 3, sum: 1500, max: 1000 });
+
+    release();
+    await hold;
+    expect(clock.pendingTimers).toBe(0);
+  });
+
+  it('retry backoff, run timeouts, rate windows and onIdle use the clock', async () => {
+    const clock = createTestClock();
+    const limiter = new Limiter(2, { clock, intervalCap: 1, intervalMs: 1000 });
+    const starts: number[] = [];
+    let calls = 0;
+
+    const flaky = limiter.run(
+      async () => {
+        starts.push(clock.now());
+        if (++calls === 1) throw new Error('fail');
+        return 'ok';
+      },
+      { retry: { attempts: 2, minDelayMs: 100, jitter: false } }
+    );
+    const slow = limiter.run(
+      (signal) => new Promise((_, reject) => signal.addEventListener('abort', reject)),
+      { runTimeoutMs: 300 }
+    );
+    const asrts = [
+      expect(flaky).resolves.toBe('ok'),
+      expect(slow).rejects.toBeInstanceOf(RunTimeoutError),
+      expect(limiter.onIdle({ timeoutMs: 50 })).rejects.toBeInstanceOf(IdleTimeoutError),
+    ];
+
+    await clock.runAll();
+    await Promise.all(asrts);
+
+    // The retry (after 100ms of backoff) waits for the next rate window; `slow` started at 1000.
+    expect(starts).toEqual([0, 2000]);
+    expect(clock.now()).toBe(2000);
+  });
+
+  it('createTestClock fires timers in time order, then scheduling order', async () => {
+    const clock = createTestClock();
+    const fired: string[] = [];
+
+    clock.setTimeout(() => fired.push('b'), 20);
+    clock.setTimeout(() => fired.push('a'), 10);
+    clock.setTimeout(() => fired.push('c'), 20);
+    const cancelled = clock.setTimeout(() => fired.push('x'), 5);
+    clock.clearTimeout(cancelled);
+    clock.setTimeout(() => {
+      fired.push('d');
+      clock.setTimeout(() => fired.push('e'), 0);
+    }, 30);
+
+    await clock.advance(20);
+    expect(fired).toEqual(['a', 'b', 'c']);
+    expect(clock.pendingTimers).toBe(1);
+
+    await clock.runAll();
+    expect(fired).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(clock.now()).toBe(30);
+
+    const loop = () => clock.setTimeout(loop, 1);
+    loop();
+    await expect(clock.runAll()).rejects.toThrow(/runAll/);
+    expect(() => new Limiter(1, { clock: {} as never })).toThrow(RangeError);
+  });
+});
+
+describe('Limiter (backpressure waits)', () => {
+  it('onEmpty resolves once the queue drains, while tasks still run', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(2);
+    const tasks = Array.from({ length: 5 }, () => limiter.run(() => delay(100)));
+    const events: string[] = [];
+
+    const below3 = limiter
+      .onPendingBelow(3)
+      .then(() => events.push(`below3:${limiter.pendingCount}`));
+    const empty = limiter.onEmpty().then(() => events.push(`empty:${limiter.activeCount}`));
+    const idle = limiter.onIdle().then(() => events.push('idle'));
+
+    // 2 running + 3 queued: the first task to settle at 100ms starts a queued one (2 left).
+    await vi.advanceTimersByTimeAsync(100);
+    expect(events).toEqual(['below3:2']);
+
+    // The last queued task starts at 200ms: the queue is empty while two tasks still run.
+    await vi.advanceTimersByTimeAsync(100);
+    expect(events).toEqual(['below3:2', 'empty:2']);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([...tasks, below3, empty, idle]);
+    expect(events).toEqual(['below3:2', 'empty:2', 'idle']);
+
+    // Already below: resolves at once.
+    await expect(limiter.onEmpty()).resolves.toBeUndefined();
+    await expect(limiter.onSizeLessThan(1)).resolves.toBeUndefined();
+  });
+
+  it('supports signal / timeoutMs and wakes when queued tasks are removed', async () => {
+    vi.useFakeTimers();
+
+    const limiter = new Limiter(1);
+    const hold = limiter.run(() => delay(100));
+    const queued = limiter.run(async () => 1, { queueTimeoutMs: 50 });
+    const queuedAsrt = expect(queued).rejects.toBeInstanceOf(QueueTimeoutError);
+
+    const ac = new AbortController();
+    const asrts = [
+      expect(limiter.onEmpty({ signal: ac.signal })).rejects.toBeInstanceOf(AbortError),
+      expect(limiter.onEmpty({ timeoutMs: 10 })).rejects.toBeInstanceOf(IdleTimeoutError),
+    ];
+    ac.abort();
+
+    // A queue timeout removes the last queued task.
+    const empty = limiter.onEmpty();
+    await vi.advanceTimersByTimeAsync(50);
+    await Promise.all([...asrts, queuedAsrt, empty]);
+    expect(limiter.activeCount).toBe(1);
+
+    await expect(limiter.onPendingBelow(0)).rejects.toThrow(RangeError);
+    await vi.advanceTimersByTimeAsync(50);
+    await hold;
+  });
+});
+
+describe('Limiter (input validation)', () => {
+  it('throws RangeError on invalid limit', () => {
+    expect(() => new Limiter(0)).toThrow(RangeError);
+    expect(() => new Limiter(-1)).toThrow(RangeError);
+    expect(() => new Limiter(Number.NaN)).toThrow(RangeError);
+  });
+
+  it('throws RangeError on invalid maxQueue', () => {
+    expect(() => new Limiter(1, { maxQueue: -1 })).toThrow(RangeError);
+    expect(() => new Limiter(1, { maxQueue: Number.NaN })).toThrow(RangeError);
+  });
+
+  it('throws RangeError on invalid intervalCap / intervalMs', () => {
+    expect(() => new Limiter(1, { intervalCap: 0, intervalMs: 100 })).toThrow(RangeError);
+    expect(() => new Limiter(1, { intervalCap: 1.5, intervalMs: 100 })).toThrow(RangeError);
+    expect(() => new Limiter(1, { intervalCap: 1 })).toThrow(RangeError);
+    expect(() => new Limiter(1, { intervalCap: 1, intervalMs: 0 })).toThrow(RangeError);
+  });
+
+  it('throws RangeError on invalid priority / priorityAgingMs', async () => {
+    expect(() => new Limiter(1, { priorityAgingMs: 0 })).toThrow(RangeError);
+    expect(() => new Limiter(1, { priorityAgingMs: Number.NaN })).toThrow(RangeError);
+
+    const limiter = new Limiter(1);
+    await expect(limiter.run(async () => 1, { priority: Number.NaN })).rejects.toBeInstanceOf(RangeError);
   });
 
   it('throws RangeError on invalid queueTimeoutMs / timeoutMs', async () => {
     expect(() => new Limiter(1, { queueTimeoutMs: -1 })).toThrow(RangeError);
+    expect(() => new Limiter(1, { runTimeoutMs: -1 })).toThrow(RangeError);
 
     const limiter = new Limiter(1);
     await expect(limiter.run(async () => 1, { queueTimeoutMs: -1 })).rejects.toBeInstanceOf(RangeError);
+    await expect(limiter.run(async () => 1, { runTimeoutMs: -1 })).rejects.toBeInstanceOf(RangeError);
     await expect(limiter.onIdle({ timeoutMs: -1 })).rejects.toBeInstanceOf(RangeError);
   });
 });
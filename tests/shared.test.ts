@@ -0,0 +1,161 @@
+/**
+ * @file shared.test.ts
+ * @description Tests for SharedLimiter (limit shared through a SharedArrayBuffer).
+ *
+ * Notes
+ * - Most tests open several handles on one buffer in the same thread: they share state exactly
+ *   like handles in different workers do. One test holds slots from a real worker thread.
+ * - Real timers: slots freed by another handle are observed through Atomics.waitAsync.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Worker } from 'node:worker_threads';
+import {
+  AbortError,
+  QueueOverflowError,
+  QueueTimeoutError,
+  RunTimeoutError,
+  SharedLimiter,
+} from '../src';
+
+function delay(ms: number) {
+  return new Promise<void>((r) => setTimeout(r, ms));
+}
+
+/** Like `delay`, but rejects as soon as `signal` aborts. */
+function abortableDelay(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const t = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(t);
+      reject(signal.reason);
+    });
+  });
+}
+
+describe('SharedLimiter', () => {
+  it('enforces one limit across every handle of the buffer', async () => {
+    const main = new SharedLimiter(2);
+    const handles = [main, new SharedLimiter(main.buffer), new SharedLimiter(main.buffer)];
+
+    let running = 0;
+    let maxRunning = 0;
+    const tasks = handles.flatMap((handle) =>
+      Array.from({ length: 3 }, () =>
+        handle.run(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await delay(10);
+          running--;
+        })
+      )
+    );
+
+    expect(main.activeWeight).toBe(2);
+    await Promise.all(tasks);
+
+    expect(maxRunning).toBe(2);
+    expect(main.activeWeight).toBe(0);
+    expect(handles.map((h) => h.pendingCount)).toEqual([0, 0, 0]);
+  });
+
+  it('wakes up when a slot is released by another thread', async () => {
+    const limiter = new SharedLimiter(2);
+
+    // The worker takes both slots, then releases them the way a handle does.
+    const worker = new Worker(
+      `
+      const { workerData, parentPort } = require('node:worker_threads');
+      const state = new Int32Array(workerData);
+      Atomics.add(state, 1, 2);
+      parentPort.postMessage('held');
+      setTimeout(() => {
+        Atomics.sub(state, 1, 2);
+        Atomics.add(state, 2, 1);
+        Atomics.notify(state, 2);
+      }, 50);
+      `,
+      { eval: true, workerData: limiter.buffer }
+    );
+
+    try {
+      await new Promise((resolve) => worker.once('message', resolve));
+      expect(limiter.activeWeight).toBe(2);
+
+      const startedAt = Date.now();
+      await expect(limiter.run(async () => 'ok', { weight: 2 })).resolves.toBe('ok');
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+    } finally {
+      await worker.terminate();
+    }
+  });
+
+  it('supports queueTimeoutMs, signal, runTimeoutMs and maxQueue per handle', async () => {
+    const limiter = new SharedLimiter(1);
+    const other = new SharedLimiter(limiter.buffer, { maxQueue: 1 });
+
+    const permit = await limiter.acquire();
+
+    await expect(other.run(async () => 1, { queueTimeoutMs: 10 })).rejects.toBeInstanceOf(
+      QueueTimeoutError
+    );
+
+    const ac = new AbortController();
+    const aborted = other.run(async () => 1, { signal: ac.signal });
+    await expect(other.run(async () => 1)).rejects.toBeInstanceOf(QueueOverflowError);
+    ac.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+
+    permit.release();
+    permit.release();
+    expect(limiter.activeWeight).toBe(0);
+
+    let taskSignal: AbortSignal | undefined;
+    const slow = other.run(
+      async (signal) => {
+        taskSignal = signal;
+        await abortableDelay(100, signal);
+      },
+      { runTimeoutMs: 10 }
+    );
+    await expect(slow).rejects.toBeInstanceOf(RunTimeoutError);
+    expect(taskSignal!.aborted).toBe(true);
+    expect(limiter.activeWeight).toBe(0);
+  });
+
+  it('setLimit applies to every handle', async () => {
+    const limiter = new SharedLimiter(1);
+    const other = new SharedLimiter(limiter.buffer);
+
+    const hold = await limiter.acquire();
+    const queued = other.run(async () => 'started');
+    expect(other.pendingCount).toBe(1);
+
+    limiter.setLimit(2);
+    expect(other.limit).toBe(2);
+    await expect(queued).resolves.toBe('started');
+    hold.release();
+  });
+
+  it('runs a queued task heavier than a lowered limit alone', async () => {
+    const limiter = new SharedLimiter(4);
+
+    const hold = await limiter.acquire();
+    const heavy = limiter.run(async () => limiter.activeWeight, { weight: 4 });
+    limiter.setLimit(2);
+
+    hold.release();
+    await expect(heavy).resolves.toBe(4);
+    expect(limiter.activeWeight).toBe(0);
+  });
+
+  it('validates its arguments', () => {
+    expect(() => new SharedLimiter(1.5)).toThrow(RangeError);
+    expect(() => new SharedLimiter(new SharedArrayBuffer(4))).toThrow(RangeError);
+    expect(() => new SharedLimiter(1, { maxQueue: -1 })).toThrow(RangeError);
+
+    const limiter = new SharedLimiter(2);
+    expect(() => limiter.setLimit(0)).toThrow(RangeError);
+    return expect(limiter.run(async () => 1, { weight: 1.5 })).rejects.toThrow(RangeError);
+  });
+});
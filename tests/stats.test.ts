@@ -0,0 +1,113 @@
+/**
+ * @file stats.test.ts
+ * @description Tests for Limiter#stats(), the latency histogram and the Prometheus formatter.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLimit, formatPrometheus, Limiter, QueueTimeoutError } from '../src';
+import { Histogram } from '../src/stats';
+
+function delay(ms: number) {
+  return new Promise<void>((r) => setTimeout(r, ms));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Limiter#stats()', () => {
+  it('returns undefined unless stats collection is enabled', () => {
+    const limiter = new Limiter(1);
+    expect(limiter.stats()).toBeUndefined();
+    expect(() => limiter.resetStats()).not.toThrow();
+  });
+
+  it('counts outcomes and records wait/run latency (including timed-out waits)', async () => {
+    vi.useFakeTimers();
+
+    const limit = createLimit(1, { stats: true, maxQueue: 2 });
+
+    const ok = limit(async () => delay(100));
+    const failed = limit(async () => {
+      await delay(50);
+      throw new Error('boom');
+    });
+    const timedOut = limit(async () => 1, { queueTimeoutMs: 40 });
+    const overflowed = limit(async () => 1);
+
+    const asrts = [
+      expect(failed).rejects.toThrow('boom'),
+      expect(timedOut).rejects.toBeInstanceOf(QueueTimeoutError),
+      expect(overflowed).rejects.toThrow(),
+    ];
+
+    await vi.advanceTimersByTimeAsync(300);
+    await Promise.all([ok, ...asrts]);
+
+    const stats = limit.stats()!;
+    expect(stats).toMatchObject({
+      started: 2,
+      succeeded: 1,
+      failed: 1,
+      overflowed: 1,
+      timedOut: 1,
+      aborted: 0,
+      activeCount: 0,
+      pendingCount: 0,
+    });
+
+    // waits: 0 (ok), 100 (failed), 40 (timed out)
+    expect(stats.waitMs).toMatchObject({ count: 3, sum: 140, min: 0, max: 100 });
+    expect(stats.runMs).toMatchObject({ count: 2, sum: 150, min: 50, max: 100 });
+
+    limit.resetStats();
+    expect(limit.stats()).toMatchObject({ started: 0, failed: 0, waitMs: { count: 0 } });
+  });
+});
+
+describe('Histogram', () => {
+  it('estimates percentiles within the bucket resolution', () => {
+    const h = new Histogram();
+    for (let i = 1; i <= 1000; i++) h.record(i);
+
+    const { p50, p95, p99, min, max, mean } = h.summary();
+
+    expect(min).toBe(1);
+    expect(max).toBe(1000);
+    expect(mean).toBe(500.5);
+    expect(p50 / 500).toBeGreaterThanOrEqual(0.99);
+    expect(p50 / 500).toBeLessThan(1.1);
+    expect(p95 / 950).toBeLessThan(1.1);
+    expect(p99).toBeLessThanOrEqual(1000);
+    expect(p99 / 990).toBeGreaterThanOrEqual(0.99);
+  });
+
+  it('keeps zero values and empty summaries at 0', () => {
+    const h = new Histogram();
+    expect(h.summary()).toEqual({ count: 0, sum: 0, min: 0, max: 0, mean: 0, p50: 0, p95: 0, p99: 0 });
+
+    h.record(0);
+    h.record(0);
+    expect(h.quantile(0.99)).toBe(0);
+  });
+});
+
+describe('formatPrometheus', () => {
+  it('renders counters, gauges and summaries with labels', async () => {
+    const limiter = new Limiter(2, { stats: true });
+    await limiter.run(async () => 1);
+
+    const text = formatPrometheus(limiter.stats()!, {
+      prefix: 'bot_limiter',
+      labels: { name: 'db "main"' },
+    });
+
+    expect(text).toContain('# TYPE bot_limiter_started_total counter');
+    expect(text).toContain('bot_limiter_started_total{name="db \\"main\\""} 1');
+    expect(text).toContain('bot_limiter_active{name="db \\"main\\""} 0');
+    expect(text).toContain('# TYPE bot_limiter_wait_ms summary');
+    expect(text).toContain('bot_limiter_wait_ms{name="db \\"main\\"",quantile="0.99"}');
+    expect(text).toContain('bot_limiter_run_ms_count{name="db \\"main\\""} 1');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
@@ -6,6 +6,10 @@ export default defineConfig({
     include: ['tests/**/*.test.ts'],
     testTimeout: 10_000,
 
+    benchmark: {
+      include: ['bench/**/*.bench.ts'],
+    },
+
     coverage: {
       provider: 'v8',
       reporter: ['text', 'html', 'lcov'],